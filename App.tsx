@@ -1,33 +1,80 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import GameCanvas from './components/GameCanvas';
 import PhysicsOverlay from './components/PhysicsOverlay';
-import { generateLevel } from './services/levelGenerator';
-import { calculateNextState, magnitude, calculateTrajectoryData } from './services/physicsEngine';
-import { GamePhase, Level, BallState, Vector3, ClubType, TrajectoryData, AimData, Tile } from './types';
+import ReplayViewer from './components/ReplayViewer';
+import LevelEditorPanel from './components/LevelEditorPanel';
+import { generateLevel, generateLevelFromCode, LevelOptions } from './services/levelGenerator';
+import { createRng, randomSeed } from './services/random';
+import { calculateTrajectoryData, simulateShot, getWindAloft, createPlayback, advancePlayback, isPlaybackFinished, getTileGrid, getTileAt, ShotPlayback, ShotOutcome } from './services/physicsEngine';
+import { GamePhase, Level, Vector3, TileType, ClubType, TrajectoryData, AimData, ContactPoint, GameMode, Round, Player, PlayerHoleState, SwingInput, Palette } from './types';
 import { PHYSICS_CONFIG } from './constants';
 import { playSwingSound, playHoleSound } from './services/audioService';
+import { getPenaltyStrokes } from './services/scoring';
+import { getDifficulty } from './services/difficulty';
+import { createCourse, createSingleHoleCourse, createRound, getCurrentHole, recordHoleScore, advanceRound, getRoundTotals } from './services/roundService';
+import { EditorHistory, EditorTool, CUSTOM_CODE, createHistory, applyEdit, editTile, setPar, undo, redo, canUndo, canRedo } from './services/levelEditor';
+import { parseCourseFile, serializeCourse } from './services/courseFile';
+import { downloadJson, getDroppedJsonFile } from './services/fileIO';
+import { ShotRecord, createShotRecord, toTrajectoryData } from './services/replay';
+import { createPlayers, createHoleStates, getNextPlayerIndex, getObstacleBalls } from './services/multiplayer';
+import { getLie, isClubAllowed, getDispersion, getShotSeed, rollDispersion, applyDispersion } from './services/shotModel';
+import { SwingMeter } from './services/swingMeter';
 
 const STARTING_LIVES = 5;
+const DEFAULT_ROUND_LENGTH = 9;
+
+// A pasted course code rebuilds that exact hole; otherwise roll a fresh seed at the
+// difficulty for `levelIndex`. A chosen map type or size only applies to fresh seeds.
+const createLevel = (levelIndex: number, options: LevelOptions, code?: string): Level => {
+  const fromCode = code ? generateLevelFromCode(code) : null;
+  return fromCode ?? generateLevel(levelIndex, randomSeed(), options);
+};
+
+const createRoundFor = (length: number, players: Player[], options: LevelOptions, code?: string): Round => {
+  const fromCode = code ? generateLevelFromCode(code) : null;
+  return createRound(fromCode ? createSingleHoleCourse(fromCode) : createCourse(randomSeed(), length, options), players);
+};
+
+// Replace one player's hole state
+const updatePlayerState = (
+  states: PlayerHoleState[],
+  index: number,
+  update: (state: PlayerHoleState) => PlayerHoleState
+): PlayerHoleState[] => states.map((state, i) => (i === index ? update(state) : state));
 
 const App: React.FC = () => {
   // Game State
-  const [level, setLevel] = useState<Level>(generateLevel(1));
-  const [ballState, setBallState] = useState<BallState>({
-    position: level.startPosition,
-    velocity: { x: 0, y: 0, z: 0 },
-    isMoving: false,
-    inHole: false,
-    lastStablePosition: level.startPosition,
-  });
+  const [roundLength, setRoundLength] = useState(DEFAULT_ROUND_LENGTH);
+  const [playerCount, setPlayerCount] = useState(1);
+  const [levelOptions, setLevelOptions] = useState<LevelOptions>({});
+  const [players, setPlayers] = useState<Player[]>(() => createPlayers(1));
+  const [round, setRound] = useState<Round | null>(() => createRoundFor(DEFAULT_ROUND_LENGTH, players, {}));
+  const [level, setLevel] = useState<Level>(() => round ? getCurrentHole(round) : createLevel(1, {}));
   const [gamePhase, setGamePhase] = useState<GamePhase>(GamePhase.AIMING);
-  
+
+  // Hot-seat: every player's ball and strokes on this hole, and whose turn it is
+  const [playerStates, setPlayerStates] = useState<PlayerHoleState[]>(() => createHoleStates(players, level.startPosition));
+  const [activePlayer, setActivePlayer] = useState(0);
+  const shooterRef = useRef(0); // Whose ball the current playback moves
+
+  const activeState = playerStates[activePlayer];
+  const ballState = activeState.ball;
+  const strokes = activeState.strokes; // Swings taken on this hole
+  const penaltyStrokes = activeState.penalties; // Water / OOB on this hole
+
   // Scoring
+  const [gameMode, setGameMode] = useState<GameMode>('STROKE_PLAY');
   const [lives, setLives] = useState(STARTING_LIVES);
   const [levelScore, setLevelScore] = useState(0); // Total levels completed
   const [highScore, setHighScore] = useState(0);
 
   const [selectedClub, setSelectedClub] = useState<ClubType>(ClubType.DRIVER);
+  const [contactPoint, setContactPoint] = useState<ContactPoint>({ x: 0, y: 0 });
   const [isPaused, setIsPaused] = useState(false);
+  const [swingInput, setSwingInput] = useState<SwingInput>('DRAG');
+  const [swingMeter, setSwingMeter] = useState<SwingMeter | null>(null);
+  const [palette, setPalette] = useState<Palette>('STANDARD');
+  const [cameraFollow, setCameraFollow] = useState(true);
   
   // Real-time aiming data for UI (Persisted)
   const [aimData, setAimData] = useState<AimData | null>(null);
@@ -35,16 +82,40 @@ const App: React.FC = () => {
   // Physics Memory for Visualization
   const [lastTrajectory, setLastTrajectory] = useState<TrajectoryData | undefined>(undefined);
 
+  // Every shot played on this hole, and the frame the replay viewer is showing
+  const [shotRecords, setShotRecords] = useState<ShotRecord[]>([]);
+  const [replayView, setReplayView] = useState<{ record: ShotRecord; position: Vector3; time: number } | null>(null);
+
+  // Level editor: undo history of the hole being built, and the brush
+  const [editor, setEditor] = useState<EditorHistory | null>(null);
+  const [editorTool, setEditorTool] = useState<EditorTool>('PAINT');
+  const [paintType, setPaintType] = useState<TileType>(TileType.FAIRWAY);
+  const editStepPendingRef = useRef(false); // Brush stroke hasn't changed anything yet
+
+  // Course files: problems with the last import, and drag-and-drop feedback
+  const [courseErrors, setCourseErrors] = useState<string[] | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+
   // Animation Loop Ref
   const requestRef = useRef<number>();
   const lastTimeRef = useRef<number>();
 
+  // Shot currently being played back, and how the last one ended
+  const playbackRef = useRef<ShotPlayback | null>(null);
+  const [shotOutcome, setShotOutcome] = useState<ShotOutcome | null>(null);
+  const [penaltyOutcome, setPenaltyOutcome] = useState<ShotOutcome | null>(null); // What the last penalty was for
+  const penaltyTimerRef = useRef<ReturnType<typeof setTimeout>>(); // Pending drop after a penalty
+
+  // Level clock (s, excludes pauses). The ref is exact, the state is for rendering.
+  const windClockRef = useRef(0);
+  const [windTime, setWindTime] = useState(0);
+
   // Optimization: Pre-calculate map for physics lookups (O(1))
-  const tileMap = useMemo(() => {
-    const map = new Map<string, Tile>();
-    level.tiles.forEach(t => map.set(`${t.x},${t.z}`, t));
-    return map;
-  }, [level]);
+  const tileGrid = useMemo(() => getTileGrid(level.tiles), [level]);
+
+  // What the active ball sits on; a ball back on its starting spot is teed up
+  const onTee = ballState.position.x === level.startPosition.x && ballState.position.z === level.startPosition.z;
+  const currentLie = getLie(getTileAt(tileGrid, ballState.position)?.type, onTee);
 
   // Init High Score
   useEffect(() => {
@@ -60,55 +131,80 @@ const App: React.FC = () => {
     }
   }, [levelScore, highScore]);
 
-  const resetBall = useCallback(() => {
-     setBallState(prev => ({
-         ...prev,
-         position: prev.lastStablePosition,
-         velocity: {x:0, y:0, z:0},
-         isMoving: false
-     }));
-     setGamePhase(GamePhase.AIMING);
-  }, []);
+  useEffect(() => () => clearTimeout(penaltyTimerRef.current), []);
 
-  const handleRestart = useCallback(() => {
-    // Full Restart of the Run
-    const newLevel = generateLevel(Math.floor(Math.random() * 1000));
+  // Shared reset when a hole is put in front of the players
+  const loadHole = useCallback((newLevel: Level, holePlayers: Player[]) => {
+    clearTimeout(penaltyTimerRef.current); // A pending penalty drop belongs to the old hole
     setLevel(newLevel);
-    setBallState({
-        position: newLevel.startPosition,
-        velocity: { x: 0, y: 0, z: 0 },
-        isMoving: false,
-        inHole: false,
-        lastStablePosition: newLevel.startPosition,
-    });
-    setLives(STARTING_LIVES);
-    setLevelScore(0);
+    setPlayerStates(createHoleStates(holePlayers, newLevel.startPosition));
+    setActivePlayer(0);
+    shooterRef.current = 0;
     setGamePhase(GamePhase.AIMING);
     setLastTrajectory(undefined);
+    setShotRecords([]);
+    setReplayView(null);
+    playbackRef.current = null;
+    setShotOutcome(null);
+    windClockRef.current = 0;
+    setWindTime(0);
     setIsPaused(false);
   }, []);
 
-  const handleNextLevel = useCallback(() => {
-    const newLevel = generateLevel(Math.floor(Math.random() * 1000));
-    setLevel(newLevel);
-    setBallState({
-        position: newLevel.startPosition,
-        velocity: { x: 0, y: 0, z: 0 },
-        isMoving: false,
-        inHole: false,
-        lastStablePosition: newLevel.startPosition,
-    });
+  // Full Restart of the Run. Stroke play starts a new round; a code makes it a one-hole round.
+  // Lives mode is a solo challenge; only stroke play is hot-seat.
+  const startRun = useCallback((mode: GameMode, length: number, count: number, options: LevelOptions, code?: string) => {
+    const newPlayers = createPlayers(mode === 'STROKE_PLAY' ? count : 1);
+    setPlayers(newPlayers);
+    if (mode === 'STROKE_PLAY') {
+        const newRound = createRoundFor(length, newPlayers, options, code);
+        setRound(newRound);
+        loadHole(getCurrentHole(newRound), newPlayers);
+    } else {
+        setRound(null);
+        loadHole(createLevel(1, options, code), newPlayers);
+    }
+    setLives(STARTING_LIVES);
+    setLevelScore(0);
+  }, [loadHole]);
+
+  const handleRestart = useCallback((code?: string) => {
+    startRun(gameMode, roundLength, playerCount, levelOptions, code);
+  }, [startRun, gameMode, roundLength, playerCount, levelOptions]);
+
+  const handleNextLevel = useCallback((code?: string) => {
+    if (gameMode === 'STROKE_PLAY') {
+        if (code) {
+            startRun(gameMode, roundLength, playerCount, levelOptions, code);
+            return;
+        }
+        const next = round && advanceRound(round);
+        if (!next) {
+            setGamePhase(GamePhase.ROUND_COMPLETE);
+            return;
+        }
+        setRound(next);
+        loadHole(getCurrentHole(next), players);
+        return;
+    }
+
+    // Holes cleared so far set the next hole's difficulty
+    loadHole(createLevel(levelScore + 1, levelOptions, code), players);
     setLives(STARTING_LIVES); // Reset lives for new level
-    setGamePhase(GamePhase.AIMING);
-    setLastTrajectory(undefined);
-    setIsPaused(false);
-  }, []);
+  }, [gameMode, roundLength, playerCount, levelOptions, levelScore, players, round, startRun, loadHole]);
 
-  const handleShoot = useCallback((velocity: Vector3) => {
+  const handleShoot = useCallback((aimedVelocity: Vector3, aimedSpin: Vector3 = { x: 0, y: 0, z: 0 }, powerRatio = aimData?.powerRatio ?? 1) => {
     if (gamePhase !== GamePhase.AIMING) return;
+
+    // Knock the shot off line and distance; the roll is seeded by hole, player and stroke
+    const rng = createRng(getShotSeed(level, players[activePlayer].id, playerStates[activePlayer].strokes + 1));
+    const dispersion = getDispersion(selectedClub, powerRatio, currentLie);
+    const { velocity, spin } = applyDispersion(aimedVelocity, aimedSpin, rollDispersion(dispersion, rng));
     
-    // Decrement Life immediately
-    setLives(l => l - 1);
+    // Count the stroke (or spend a life) immediately
+    const shooter = activePlayer;
+    shooterRef.current = shooter;
+    if (gameMode === 'LIVES') setLives(l => l - 1);
     
     playSwingSound();
 
@@ -118,19 +214,48 @@ const App: React.FC = () => {
         velocity, 
         PHYSICS_CONFIG, 
         level.tiles, 
-        200 // Max steps for full arc calculation
+        200, // Max steps for full arc calculation
+        spin,
+        { wind: level.wind, time: windClockRef.current, entities: level.entities }
     );
     setLastTrajectory(trajData);
+
+    // The whole shot is resolved here; the render loop only plays it back
+    const result = simulateShot(level, ballState.position, velocity, PHYSICS_CONFIG, {
+        spin,
+        startTime: windClockRef.current,
+        otherBalls: getObstacleBalls(playerStates, shooter),
+    });
+    playbackRef.current = createPlayback(result);
+    setShotRecords(prev => [...prev, createShotRecord(result, velocity, {
+        playerId: players[shooter].id,
+        stroke: playerStates[shooter].strokes + 1,
+        club: selectedClub,
+        powerRatio,
+        contactPoint,
+        spin,
+        startTime: windClockRef.current,
+    })]);
     
-    setBallState(prev => ({
-      ...prev,
-      velocity: velocity,
-      isMoving: true,
-      lastStablePosition: prev.position // Checkpoint before shot
-    }));
+    setPlayerStates(prev => updatePlayerState(prev, shooter, state => ({
+      ...state,
+      strokes: state.strokes + 1,
+      ball: {
+        ...state.ball,
+        velocity: velocity,
+        spin: spin,
+        isMoving: true,
+        lastStablePosition: state.ball.position // Checkpoint before shot
+      },
+    })));
     
     setGamePhase(GamePhase.EXECUTING);
-  }, [gamePhase, ballState.position, level.tiles]);
+  }, [gamePhase, gameMode, activePlayer, players, playerStates, ballState.position, level, selectedClub, aimData, contactPoint, currentLie]);
+
+  // Off the tee or fairway the driver is out of the bag
+  useEffect(() => {
+    if (gamePhase === GamePhase.AIMING && !isClubAllowed(selectedClub, currentLie)) setSelectedClub(ClubType.IRON);
+  }, [gamePhase, selectedClub, currentLie]);
 
   // Wrapper for onAim to only update if we have data, or keep old data if null (released but not shot)
   const handleAim = (data: AimData | null) => {
@@ -142,71 +267,39 @@ const App: React.FC = () => {
       const dt = Math.min((time - lastTimeRef.current) / 1000, 0.1); 
       
       // PAUSE CHECK
-      if (!isPaused && ballState.isMoving) {
-          
-        setBallState(prev => {
-            // SUB-STEPPING for better collision accuracy
-            const SUB_STEPS = 8;
-            const subDt = dt / SUB_STEPS;
-            
-            let currentState = { ...prev };
-            
-            for(let i = 0; i < SUB_STEPS; i++) {
-                if (!currentState.isMoving) break;
-
-                // Void Killer
-                if (currentState.position.y < -10) {
-                    currentState.isMoving = false;
-                    currentState.velocity = {x:0, y:0, z:0};
-                    break;
-                }
-
-                // Check collisions using O(1) map
-                const { pos, vel, collision } = calculateNextState(
-                    currentState.position, 
-                    currentState.velocity, 
-                    subDt, 
-                    PHYSICS_CONFIG, 
-                    tileMap
-                );
-
-                if (collision === 'WATER') {
-                    currentState.position = pos;
-                    currentState.velocity = vel;
-                    currentState.isMoving = false;
-                    break;
-                }
-
-                const currentTile = tileMap.get(`${Math.round(pos.x)},${Math.round(pos.z)}`);
-                const speed = magnitude(vel);
-                const isBasicallyStopped = speed < PHYSICS_CONFIG.minVelocityToStop && Math.abs(pos.y - (currentTile?.height || 0)) < 0.1;
-                
-                const distToHole = magnitude({
-                    x: pos.x - level.holePosition.x,
-                    y: 0, 
-                    z: pos.z - level.holePosition.z
-                });
-                
-                let inHole = currentState.inHole;
-                if (distToHole < 0.3 && speed < 5) { 
-                    inHole = true;
-                }
-
-                currentState.position = inHole ? level.holePosition : pos;
-                currentState.velocity = inHole || isBasicallyStopped ? { x: 0, y: 0, z: 0 } : vel;
-                currentState.isMoving = !isBasicallyStopped && !inHole;
-                currentState.inHole = inHole;
-                
-                if (inHole) break; // Stop integrating if in hole
-            }
-            
-            return currentState;
-        });
+      if (!isPaused) {
+        // Level clock drives the wind gusts; UI only needs it at 10 Hz
+        const prevClock = windClockRef.current;
+        windClockRef.current += dt;
+        if (Math.floor(windClockRef.current * 10) !== Math.floor(prevClock * 10)) {
+          setWindTime(windClockRef.current);
+        }
+      }
+
+      const playback = playbackRef.current;
+      if (!isPaused && playback) {
+        const next = advancePlayback(playback, dt);
+        const frame = next.result.timeline[next.frameIndex];
+        const finished = isPlaybackFinished(next);
+        playbackRef.current = finished ? null : next;
+
+        setPlayerStates(prev => updatePlayerState(prev, shooterRef.current, state => ({
+            ...state,
+            ball: {
+                ...state.ball,
+                position: frame.position,
+                velocity: frame.velocity,
+                spin: frame.spin,
+                isMoving: !finished,
+                inHole: finished && next.result.outcome === 'HOLED',
+            },
+        })));
+        if (finished) setShotOutcome(next.result.outcome);
       }
     }
     lastTimeRef.current = time;
     requestRef.current = requestAnimationFrame(updatePhysics);
-  }, [tileMap, isPaused, ballState.isMoving, level.holePosition]); 
+  }, [isPaused]); 
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(updatePhysics);
@@ -215,69 +308,292 @@ const App: React.FC = () => {
     };
   }, [updatePhysics]);
 
+  // End of a turn: hand the course to whoever is now farthest out,
+  // or close the hole once every ball is down
+  const finishTurn = useCallback((states: PlayerHoleState[]) => {
+    setPlayerStates(states);
+    const next = getNextPlayerIndex(states, level.holePosition);
+    if (next === -1) {
+        setLevelScore(s => s + 1);
+        setRound(r => r && states.reduce(
+            (acc, state, i) => recordHoleScore(acc, i, { strokes: state.strokes, penalties: state.penalties }),
+            r
+        ));
+        setGamePhase(GamePhase.LEVEL_COMPLETE);
+    } else {
+        setActivePlayer(next);
+        setGamePhase(GamePhase.AIMING);
+    }
+  }, [level.holePosition]);
+
   // Phase Transition Logic
   useEffect(() => {
-    if (gamePhase === GamePhase.EXECUTING) {
-        if (ballState.inHole) {
+    if (gamePhase === GamePhase.EXECUTING && !ballState.isMoving && shotOutcome) {
+        setShotOutcome(null);
+        const shooter = shooterRef.current;
+        if (shotOutcome === 'HOLED') {
             playHoleSound();
-            setLevelScore(s => s + 1);
-            setGamePhase(GamePhase.LEVEL_COMPLETE);
-        } else if (!ballState.isMoving) {
-            // Check if ball ended up in water or bad place or void
-            const currentTile = tileMap.get(`${Math.round(ballState.position.x)},${Math.round(ballState.position.z)}`);
-            
-            // If ball is really deep (void killer triggered) or on water
-            if (!currentTile || currentTile.type === 'WATER' || ballState.position.y < -5) {
-                setGamePhase(GamePhase.OUT_OF_BOUNDS);
-                setTimeout(resetBall, 1000); 
+            finishTurn(updatePlayerState(playerStates, shooter, state => ({ ...state, holed: true })));
+        } else if (shotOutcome === 'WATER' || shotOutcome === 'LAVA' || shotOutcome === 'VOID' || !getTileAt(tileGrid, ballState.position)) {
+            // Stroke and distance: replay from the last stable lie
+            const penalty = gameMode === 'STROKE_PLAY' ? getPenaltyStrokes(shotOutcome) : 0;
+            setPenaltyOutcome(shotOutcome);
+            const penalised = updatePlayerState(playerStates, shooter, state => ({ ...state, penalties: state.penalties + penalty }));
+            setPlayerStates(penalised);
+            setGamePhase(GamePhase.OUT_OF_BOUNDS);
+            penaltyTimerRef.current = setTimeout(() => finishTurn(updatePlayerState(penalised, shooter, state => ({
+                ...state,
+                ball: {
+                    ...state.ball,
+                    position: state.ball.lastStablePosition,
+                    velocity: { x: 0, y: 0, z: 0 },
+                    spin: { x: 0, y: 0, z: 0 },
+                    isMoving: false,
+                },
+            }))), 1000);
+        } else {
+            // Ball stopped, not in hole. Check Lives.
+            if (gameMode === 'LIVES' && lives <= 0) {
+                setGamePhase(GamePhase.GAME_OVER);
             } else {
-                // Ball stopped, not in hole. Check Lives.
-                if (lives <= 0) {
-                    setGamePhase(GamePhase.GAME_OVER);
-                } else {
-                    setGamePhase(GamePhase.AIMING);
-                }
+                finishTurn(playerStates);
             }
         }
     }
-  }, [ballState.isMoving, ballState.inHole, ballState.position, gamePhase, tileMap, resetBall, lives]);
+  }, [ballState.isMoving, ballState.position, shotOutcome, gamePhase, gameMode, tileGrid, finishTurn, lives, playerStates]);
+
+  // Switching modes, round length, map type or size starts a fresh run
+  const handleChangeGameMode = (mode: GameMode) => {
+      setGameMode(mode);
+      startRun(mode, roundLength, playerCount, levelOptions);
+  };
+
+  const handleChangeRoundLength = (length: number) => {
+      setRoundLength(length);
+      startRun(gameMode, length, playerCount, levelOptions);
+  };
+
+  const handleChangePlayerCount = (count: number) => {
+      setPlayerCount(count);
+      startRun(gameMode, roundLength, count, levelOptions);
+  };
+
+  const handleChangeLevelOptions = (options: LevelOptions) => {
+      setLevelOptions(options);
+      startRun(gameMode, roundLength, playerCount, options);
+  };
+
+  // Running score against par for the holes finished so far (player whose turn it is)
+  const roundTotals = round ? getRoundTotals(round, activePlayer).total : null;
+  const totalToPar = roundTotals ? roundTotals.strokes - roundTotals.par : 0;
+
+  // Replay viewer: only opens between shots, and locks aiming while it's up
+  const handleOpenReplay = () => {
+      if (gamePhase !== GamePhase.AIMING) return;
+      setGamePhase(GamePhase.REPLAY);
+  };
+
+  const handleCloseReplay = () => {
+      setReplayView(null);
+      setGamePhase(GamePhase.AIMING);
+  };
+
+  const handleReplayView = useCallback((record: ShotRecord, position: Vector3, time: number) => {
+      setReplayView({ record, position, time });
+  }, []);
+
+  const replayTrajectory = useMemo(() => replayView && toTrajectoryData(replayView.record), [replayView?.record]);
+  const replayColor = replayView ? players.find(p => p.id === replayView.record.playerId)?.color : undefined;
+
+  // Editor: opens between shots on the current hole, picking up where the last
+  // test play left off
+  const handleOpenEditor = () => {
+      if (gamePhase !== GamePhase.AIMING) return;
+      setEditor(h => h && h.present === level ? h : createHistory(level));
+      setGamePhase(GamePhase.EDITING);
+  };
+
+  const handleEditTile = useCallback((x: number, z: number, strokeStart: boolean) => {
+      if (!editor) return;
+      if (strokeStart) editStepPendingRef.current = true;
+      const next = applyEdit(editor, editTile(editor.present, editorTool, x, z, paintType), editStepPendingRef.current);
+      if (next !== editor) {
+          editStepPendingRef.current = false;
+          setEditor(next);
+      }
+  }, [editor, editorTool, paintType]);
+
+  // A hand-built or loaded hole becomes a one-hole round in the normal aiming loop
+  const playCustomLevel = useCallback((custom: Level) => {
+      setRound(gameMode === 'STROKE_PLAY' ? createRound(createSingleHoleCourse(custom), players) : null);
+      loadHole(custom, players);
+  }, [gameMode, players, loadHole]);
+
+  const handleTestPlay = () => {
+      if (editor) playCustomLevel(editor.present);
+  };
+
+  const handleExportCourse = () => {
+      downloadJson(`course-${level.code}.json`, serializeCourse(level));
+  };
+
+  const handleImportCourse = async (file: File) => {
+      const parsed = parseCourseFile(await file.text());
+      if ('errors' in parsed) {
+          setCourseErrors(parsed.errors);
+          return;
+      }
+      setCourseErrors(null);
+      playCustomLevel(parsed.level);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes('Files')) return;
+      e.preventDefault();
+      setIsDraggingFile(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDraggingFile(false);
+      const file = getDroppedJsonFile(e.dataTransfer);
+      if (file) handleImportCourse(file);
+      else setCourseErrors(['Drop a .json course file']);
+  };
+
+  const handleExitEditor = () => {
+      setGamePhase(GamePhase.AIMING);
+  };
+
+  const isEditing = gamePhase === GamePhase.EDITING && editor !== null;
+  const shownLevel = isEditing ? editor.present : level;
+
+  // Everyone else's ball that is still in play, for the canvas
+  const otherBalls = useMemo(() => playerStates.flatMap((state, i) =>
+      i === activePlayer || state.holed ? [] : [{ position: state.ball.position, color: players[i].color }]
+  ), [playerStates, activePlayer, players]);
 
   // Helper to find current tile type for UI
   const getCurrentTileType = () => {
-      const t = tileMap.get(`${Math.round(ballState.position.x)},${Math.round(ballState.position.z)}`);
-      return t?.type;
+      return getTileAt(tileGrid, ballState.position)?.type;
   };
 
   return (
-    <div className="relative w-full h-screen bg-sky-200 overflow-hidden">
+    <div
+      className="relative w-full h-screen bg-sky-200 overflow-hidden"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => { if (e.currentTarget === e.target) setIsDraggingFile(false); }}
+      onDrop={handleDrop}
+    >
       <GameCanvas
-        tiles={level.tiles}
-        ballPosition={ballState.position}
-        holePosition={level.holePosition}
+        tiles={shownLevel.tiles}
+        ballPosition={isEditing ? shownLevel.startPosition : replayView ? replayView.position : ballState.position}
+        ballColor={replayColor ?? players[activePlayer].color}
+        otherBalls={replayView || isEditing ? [] : otherBalls}
+        holePosition={shownLevel.holePosition}
+        entities={shownLevel.entities}
         onShoot={handleShoot}
         onAim={handleAim}
+        swingInput={swingInput}
+        onSwingMeter={setSwingMeter}
         gamePhase={gamePhase}
         selectedClub={selectedClub}
-        lastTrajectory={lastTrajectory}
+        onSelectClub={setSelectedClub}
+        contactPoint={contactPoint}
+        lie={currentLie}
+        wind={level.wind}
+        windTime={windTime}
+        replayTime={replayView ? replayView.record.startTime + replayView.time : undefined}
+        lastTrajectory={isEditing ? undefined : replayTrajectory ?? lastTrajectory}
         isPaused={isPaused}
+        cameraFollow={cameraFollow}
+        palette={palette}
+        onEditTile={handleEditTile}
       />
       <PhysicsOverlay
         ballPosition={ballState.position}
         ballVelocity={ballState.velocity}
         phase={gamePhase}
-        strokes={lives} // Passing lives here
+        gameMode={gameMode}
+        onChangeGameMode={handleChangeGameMode}
+        lives={lives}
+        strokes={strokes}
+        penaltyStrokes={penaltyStrokes}
         par={level.par}
+        totalToPar={totalToPar}
+        round={round}
+        players={players}
+        playerStates={playerStates}
+        activePlayer={activePlayer}
+        playerCount={playerCount}
+        onChangePlayerCount={handleChangePlayerCount}
+        roundLength={roundLength}
+        onChangeRoundLength={handleChangeRoundLength}
+        levelOptions={levelOptions}
+        onChangeLevelOptions={handleChangeLevelOptions}
         levelScore={levelScore}
         highScore={highScore}
         selectedClub={selectedClub}
         setSelectedClub={setSelectedClub}
+        contactPoint={contactPoint}
+        setContactPoint={setContactPoint}
+        wind={getWindAloft(level.wind, windTime)}
         currentTileType={getCurrentTileType()}
+        lie={currentLie}
         aimData={aimData}
+        swingInput={swingInput}
+        onChangeSwingInput={setSwingInput}
+        swingMeter={swingMeter}
+        palette={palette}
+        onChangePalette={setPalette}
+        cameraFollow={cameraFollow}
+        onToggleCameraFollow={() => setCameraFollow(f => !f)}
         isPaused={isPaused}
         onTogglePause={() => setIsPaused(p => !p)}
-        onRestart={handleRestart}
-        onNextLevel={handleNextLevel}
+        courseCode={level.code}
+        onRestart={() => handleRestart()}
+        onNextLevel={() => handleNextLevel()}
+        onPlayCode={(code) => handleRestart(code)}
+        onOpenReplay={handleOpenReplay}
+        onOpenEditor={handleOpenEditor}
+        onExportCourse={handleExportCourse}
+        onImportCourse={handleImportCourse}
+        courseErrors={courseErrors}
+        onDismissCourseErrors={() => setCourseErrors(null)}
+        penaltyOutcome={penaltyOutcome}
+        difficulty={level.code === CUSTOM_CODE ? null : getDifficulty(level.levelIndex)}
       />
+      {isDraggingFile && (
+        <div className="absolute inset-4 z-[60] pointer-events-none rounded-3xl border-4 border-dashed border-white/80 bg-slate-900/40 flex items-center justify-center">
+          <span className="bg-slate-900/90 text-white px-8 py-4 rounded-2xl text-2xl font-bold tracking-widest">DROP COURSE FILE</span>
+        </div>
+      )}
+      {gamePhase === GamePhase.REPLAY && (
+        <ReplayViewer
+          level={level}
+          shots={shotRecords}
+          players={players}
+          onView={handleReplayView}
+          onClose={handleCloseReplay}
+        />
+      )}
+      {isEditing && (
+        <LevelEditorPanel
+          tool={editorTool}
+          setTool={setEditorTool}
+          paintType={paintType}
+          setPaintType={setPaintType}
+          palette={palette}
+          par={editor.present.par}
+          onChangePar={(par) => setEditor(h => h && applyEdit(h, setPar(h.present, par), true))}
+          canUndo={canUndo(editor)}
+          canRedo={canRedo(editor)}
+          onUndo={() => setEditor(h => h && undo(h))}
+          onRedo={() => setEditor(h => h && redo(h))}
+          onTestPlay={handleTestPlay}
+          onExit={handleExitEditor}
+        />
+      )}
     </div>
   );
 };
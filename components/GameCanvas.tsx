@@ -1,45 +1,105 @@
-import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
-import { Tile, Vector3, TileType, GamePhase, CameraState, ClubType, TrajectoryData, AimData } from '../types';
-import { TILE_SIZE, COLORS, SIDE_COLORS, MAX_DRAG_DISTANCE, PHYSICS_CONSTANTS } from '../constants';
-import { calculateTrajectoryData } from '../services/physicsEngine';
-import { PHYSICS_CONFIG } from '../constants';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { Tile, Vector3, TileType, GamePhase, CameraState, ClubType, TrajectoryData, AimData, ContactPoint, WindField, LevelEntity, Lie, SwingInput, Palette } from '../types';
+import { TILE_SIZE, MAX_DRAG_DISTANCE } from '../constants';
+import { calculateTrajectoryData, getTileGrid, getTileAt, getTileAtCell, getSurfaceHeight, getWindAloft } from '../services/physicsEngine';
+import { PHYSICS_CONFIG, PHYSICS_CONSTANTS } from '../constants';
+import { CLUB_STATS, computeShot, Dispersion, getDispersion } from '../services/shotModel';
+import { getEntityPose, getBlades, BUMPER_HEIGHT } from '../services/entities';
+import { InputAction, getKeyAction, readGamepad, cycleClub, AIM_STEP, POWER_STEP, FINE_STEP, DEFAULT_KEY_POWER } from '../services/controls';
+import { CameraGoal, GroundPoint, cameraAround, groundAt, framePoints, stepCamera, projectWorld, MIN_ZOOM, MAX_ZOOM } from '../services/camera';
+import { TerrainRenderer, createTerrainRenderer } from '../services/terrainRenderer';
+import { drawQuad, drawTile3D } from '../services/canvasTerrain';
+import { BASE_GROUND_LEVEL, PROP_HEADROOM } from '../services/terrainStyle';
+import { SwingMeter, readyMeter, startSwing, setSwingPower, resumeSwing, getMeterPosition, getMeterTimeout, getSwingStrike, curveContact, METER_OVERRUN } from '../services/swingMeter';
 
 interface GameCanvasProps {
   tiles: Tile[];
   ballPosition: Vector3;
+  ballColor: string; // Colour of the player whose turn it is
+  otherBalls: { position: Vector3; color: string }[]; // Everyone else still on the hole
   holePosition: Vector3;
-  onShoot: (velocity: Vector3) => void;
+  entities: LevelEntity[];
+  onShoot: (velocity: Vector3, spin?: Vector3, powerRatio?: number) => void;
   onAim: (data: AimData | null) => void;
+  swingInput: SwingInput; // Drag-and-release, or drag to aim then the three-click meter
+  onSwingMeter: (meter: SwingMeter | null) => void;
   gamePhase: GamePhase;
   selectedClub: ClubType;
+  onSelectClub: (club: ClubType) => void; // Club cycling from keys and gamepad
+  contactPoint: ContactPoint;
+  lie: Lie; // Under the ball; weakens the previewed strike
+  wind: WindField;
+  windTime: number; // Level clock, s
+  replayTime?: number; // Level clock of the replayed frame; entities are posed at it instead of the live clock
   lastTrajectory?: TrajectoryData;
   isPaused: boolean; 
+  cameraFollow: boolean; // Let the camera frame the hole before a shot and chase the ball in flight
+  palette: Palette;
+  onEditTile?: (x: number, z: number, strokeStart: boolean) => void; // Level editor brush
 }
 
-// Angles in Degrees
-const CLUB_STATS = {
-  [ClubType.DRIVER]: { maxForce: 2200, minAngle: 18, angleRange: 12, guideLines: 100 }, 
-  [ClubType.IRON]:   { maxForce: 1400, minAngle: 30, angleRange: 15, guideLines: 80 },
-  [ClubType.WEDGE]:  { maxForce: 950, minAngle: 45, angleRange: 20, guideLines: 60 }, 
-  [ClubType.PUTTER]: { maxForce: 1500, minAngle: 0, angleRange: 0, guideLines: 40 }, // Increased slightly
-};
+const MIN_DISPERSION_RADIUS = 0.3; // World units, so a tiny putt still shows a target
+const DISPERSION_SEGMENTS = 32;
+const BALL_GRAB_RADIUS = 60; // Screen px at zoom 1
+const TOUCH_GRAB_RADIUS = 80; // Screen px at any zoom, so a fingertip can always grab the ball
+const FRAME_MARGIN = 160; // Screen px kept clear around the ball and hole when framing, for the HUD
+const FRAME_MAX_ZOOM = 1.5;
+const FLIGHT_MIN_ZOOM = 0.4; // Furthest the camera pulls out for a long drive
+const ROTATE_SPEED = Math.PI / 2; // rad/s while Q or E is held
+const DRAG_ROTATE_SPEED = 0.01; // rad per px of right-drag
+const BALL_SCREEN_RADIUS = 5; // px at zoom 1
+const OCCLUDER_RANGE = 6; // Tiles in front of a ball that could rise over it on screen
+const PROP_TILES = [TileType.TREE, TileType.OBSTACLE]; // Stand up to PROP_HEADROOM above their tile
+
+// A shot direction in world space and the power the drag asked for
+interface AimLine {
+  dirX: number;
+  dirZ: number;
+  powerRatio: number;
+}
+
+// Camera and fingers when a two-finger gesture began. `pivot` is the ground point that
+// was under their midpoint, and it stays under the midpoint as they move.
+interface PinchStart {
+  camera: CameraState;
+  pivot: GroundPoint;
+  distance: number;
+  angle: number;
+}
 
-const BASE_GROUND_LEVEL = -4; 
+// Highest point of a tile, props included
+const getTileTop = (tile: Tile) =>
+  Math.max(...(tile.corners ?? [tile.height])) + (PROP_TILES.includes(tile.type) ? PROP_HEADROOM : 0);
 
 const GameCanvas: React.FC<GameCanvasProps> = ({
   tiles,
   ballPosition,
+  ballColor,
+  otherBalls,
   holePosition,
+  entities,
   onShoot,
   onAim,
+  swingInput,
+  onSwingMeter,
   gamePhase,
   selectedClub,
+  onSelectClub,
+  contactPoint,
+  lie,
+  wind,
+  windTime,
+  replayTime,
   lastTrajectory,
-  isPaused
+  isPaused,
+  cameraFollow,
+  palette,
+  onEditTile
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const terrainCacheRef = useRef<HTMLCanvasElement | null>(null);
+  const terrainCanvasRef = useRef<HTMLCanvasElement>(null); // Under the scene, for a WebGL terrain
+  const rendererRef = useRef<TerrainRenderer | null>(null);
   const [initialized, setInitialized] = useState(false);
   
   // Camera State
@@ -49,23 +109,34 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     rotation: -Math.PI / 4 
   });
 
-  const [dragMode, setDragMode] = useState<'NONE' | 'PAN' | 'AIM'>('NONE');
+  // Camera controller: where it is easing to, and whether the player has taken over
+  const cameraRef = useRef(camera);
+  cameraRef.current = camera;
+  const cameraGoalRef = useRef<CameraGoal | null>(null);
+  const manualCameraRef = useRef(false); // Until the next shot or turn
+  const spinRef = useRef<-1 | 0 | 1>(0); // Q or E held: turn continuously
+
+  const [dragMode, setDragMode] = useState<'NONE' | 'PAN' | 'AIM' | 'EDIT' | 'PINCH' | 'ROTATE'>('NONE');
   const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
   const [dragCurrent, setDragCurrent] = useState<{ x: number; y: number } | null>(null);
   const [time, setTime] = useState(0);
   const [isHoveringBall, setIsHoveringBall] = useState(false);
-
-  // Sorting tiles once per level change/render is better, but doing it in render loop is safer for depth
-  // We will memoize the sorted tiles for the cache drawing
-  const sortedTilesForCache = useMemo(() => {
-     return [...tiles].sort((a, b) => {
-        // Simple depth sort based on isometric projection logic (x + z)
-        // Since rotation is fixed to 45 deg steps, (x+z) works for standard view
-        // But we rotate the camera.
-        // For caching to work with rotation, we need to invalidate cache on rotation.
-        return (a.x + a.z) - (b.x + b.z);
-     });
-  }, [tiles]);
+  const [hoverTile, setHoverTile] = useState<Tile | null>(null); // Editor cursor
+  const lastEditRef = useRef<string | null>(null); // Tile the brush last touched this stroke
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>()); // Every pointer that is down
+  const pinchRef = useRef<PinchStart | null>(null);
+  const [swing, setSwing] = useState<{ aim: AimLine; meter: SwingMeter } | null>(null); // Meter mode, aim locked
+  const pausedAtRef = useRef<number | null>(null); // performance.now() when the game was paused
+  const [keyAim, setKeyAim] = useState<{ heading: number; powerRatio: number } | null>(null); // Keys or gamepad; heading in world radians
+
+  // windTime only ticks at 10 Hz; entities move smoothly by running on from the last tick
+  const levelClockRef = useRef({ time: windTime, at: performance.now() });
+  useEffect(() => {
+    levelClockRef.current = { time: windTime, at: performance.now() };
+  }, [windTime]);
+  // A replay poses entities where they were when the recorded ball passed them
+  const getLevelTime = () =>
+    replayTime ?? (isPaused ? windTime : windTime + Math.min(0.1, (performance.now() - levelClockRef.current.at) / 1000));
 
   useEffect(() => {
     let animId: number;
@@ -78,119 +149,110 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
   }, []);
 
   // Coordinate Projection
-  const worldToScreen = useCallback((v: Vector3): { x: number; y: number, depth: number } => {
-    const cosR = Math.cos(camera.rotation);
-    const sinR = Math.sin(camera.rotation);
-    
-    // Rotate world
-    const rx = v.x * cosR - v.z * sinR;
-    const rz = v.x * sinR + v.z * cosR;
-
-    const ISO_X_SCALE = TILE_SIZE * Math.cos(Math.PI / 6);
-    const ISO_Y_SCALE = TILE_SIZE * Math.sin(Math.PI / 6);
-
-    // Project
-    const isoX = (rx - rz) * ISO_X_SCALE;
-    const isoY = (rx + rz) * ISO_Y_SCALE - (v.y * TILE_SIZE);
-
-    return {
-        x: isoX * camera.zoom + camera.offset.x,
-        y: isoY * camera.zoom + camera.offset.y,
-        depth: rz + rx 
-    };
-  }, [camera]);
+  const worldToScreen = useCallback((v: Vector3) => projectWorld(v, camera), [camera]);
 
   // Screen to World (Approximate at Y=0) for Pivot Logic
-  const screenToWorldIso = useCallback((sx: number, sy: number) => {
-    // Reverse offset and zoom
-    const adjX = (sx - camera.offset.x) / camera.zoom;
-    const adjY = (sy - camera.offset.y) / camera.zoom;
-    
-    const ISO_X_SCALE = TILE_SIZE * Math.cos(Math.PI / 6);
-    const ISO_Y_SCALE = TILE_SIZE * Math.sin(Math.PI / 6);
-    
-    const term1 = adjX / ISO_X_SCALE;
-    const term2 = adjY / ISO_Y_SCALE;
-
-    const rx = (term1 + term2) / 2;
-    const rz = (term2 - term1) / 2;
+  const screenToWorldIso = useCallback((sx: number, sy: number) => groundAt(camera, { x: sx, y: sy }), [camera]);
+
+  // Tile under a screen point. screenToWorldIso assumes y = 0, so check the nearby
+  // tiles' real top faces and keep the front-most one that contains the point.
+  const pickTile = useCallback((sx: number, sy: number): Tile | null => {
+    const guess = screenToWorldIso(sx, sy);
+    const tileGrid = getTileGrid(tiles);
+    let best: Tile | null = null;
+    let bestDepth = -Infinity;
+    for (let i = -4; i <= 4; i++) {
+      for (let j = -4; j <= 4; j++) {
+        const tile = getTileAtCell(tileGrid, Math.round(guess.x) + i, Math.round(guess.z) + j);
+        if (!tile) continue;
+        const [h1, h2, h3, h4] = tile.corners ?? [tile.height, tile.height, tile.height, tile.height];
+        const quad = [
+          worldToScreen({ x: tile.x - 0.5, y: h1, z: tile.z - 0.5 }),
+          worldToScreen({ x: tile.x + 0.5, y: h2, z: tile.z - 0.5 }),
+          worldToScreen({ x: tile.x + 0.5, y: h3, z: tile.z + 0.5 }),
+          worldToScreen({ x: tile.x - 0.5, y: h4, z: tile.z + 0.5 }),
+        ];
+        let inside = false;
+        for (let a = 0, b = quad.length - 1; a < quad.length; b = a++) {
+          if ((quad[a].y > sy) !== (quad[b].y > sy) &&
+              sx < (quad[b].x - quad[a].x) * (sy - quad[a].y) / (quad[b].y - quad[a].y) + quad[a].x) {
+            inside = !inside;
+          }
+        }
+        const depth = worldToScreen({ x: tile.x, y: tile.height, z: tile.z }).depth;
+        if (inside && depth > bestDepth) {
+          best = tile;
+          bestDepth = depth;
+        }
+      }
+    }
+    return best;
+  }, [tiles, screenToWorldIso, worldToScreen]);
 
-    // Un-rotate
-    const cosR = Math.cos(-camera.rotation);
-    const sinR = Math.sin(-camera.rotation);
+  // Rotate Camera Around Screen Center
+  const getViewport = () => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      return { width: rect ? rect.width : window.innerWidth, height: rect ? rect.height : window.innerHeight };
+  };
 
-    const x = rx * cosR - rz * sinR;
-    const z = rx * sinR + rz * cosR;
-    
-    return { x, z };
-  }, [camera]);
+  // A manual pan or zoom: the controller lets go of position and zoom until the next shot or turn
+  const takeCamera = () => {
+      manualCameraRef.current = true;
+      const rotation = cameraGoalRef.current?.rotation;
+      cameraGoalRef.current = rotation === undefined ? null : { rotation };
+  };
 
-  // Rotate Camera Around Screen Center
+  // Eased by the camera controller; a press mid-turn adds on to where the turn is heading
   const rotateCamera = (direction: 'LEFT' | 'RIGHT') => {
       if (isPaused) return;
 
       const angleDelta = Math.PI / 4 * (direction === 'LEFT' ? 1 : -1);
-      
-      const rect = containerRef.current?.getBoundingClientRect();
-      const cx = rect ? rect.width / 2 : window.innerWidth / 2;
-      const cy = rect ? rect.height / 2 : window.innerHeight / 2;
-      
-      const pivot = screenToWorldIso(cx, cy);
-
-      setCamera(prev => {
-         const newRot = prev.rotation + angleDelta;
-         
-         const cosR = Math.cos(newRot);
-         const sinR = Math.sin(newRot);
-         
-         const rx = pivot.x * cosR - pivot.z * sinR;
-         const rz = pivot.x * sinR + pivot.z * cosR;
-
-         const ISO_X_SCALE = TILE_SIZE * Math.cos(Math.PI / 6);
-         const ISO_Y_SCALE = TILE_SIZE * Math.sin(Math.PI / 6);
-
-         const isoX = (rx - rz) * ISO_X_SCALE;
-         const isoY = (rx + rz) * ISO_Y_SCALE;
-         
-         const screenX = isoX * prev.zoom + prev.offset.x;
-         const screenY = isoY * prev.zoom + prev.offset.y;
-
-         return {
-             ...prev,
-             rotation: newRot,
-             offset: {
-                 x: prev.offset.x + (cx - screenX),
-                 y: prev.offset.y + (cy - screenY)
-             }
-         };
-      });
-      // Invalidate cache
-      terrainCacheRef.current = null;
+      const goal = cameraGoalRef.current;
+      cameraGoalRef.current = { ...goal, rotation: (goal?.rotation ?? camera.rotation) + angleDelta };
   };
 
   const handleZoom = (delta: number) => {
       if (isPaused) return;
+      takeCamera();
       setCamera(prev => ({
           ...prev,
-          zoom: Math.max(0.3, Math.min(3, prev.zoom + delta))
+          zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev.zoom + delta))
       }));
-      // Invalidate cache
-      terrainCacheRef.current = null;
   };
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
         if (isPaused) return;
-        if (e.key.toLowerCase() === 'q') rotateCamera('LEFT');
-        if (e.key.toLowerCase() === 'e') rotateCamera('RIGHT');
+        if (e.target instanceof HTMLInputElement) return; // Typing a course code
+        if (e.key.toLowerCase() === 'q' && !e.repeat) spinRef.current = 1;
+        if (e.key.toLowerCase() === 'e' && !e.repeat) spinRef.current = -1;
         if (e.key === '=' || e.key === '+') handleZoom(0.1);
         if (e.key === '-') handleZoom(-0.1);
+
+        const action = getKeyAction(e.key);
+        if (!action || e.target instanceof HTMLSelectElement) return;
+        if (action === 'SWING' && e.target instanceof HTMLButtonElement) return; // A focused button takes its own Enter/Space
+        if (gamePhase !== GamePhase.AIMING) return;
+        e.preventDefault(); // Arrows would scroll the page
+        inputRef.current.handleInputAction(action, e.shiftKey);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+        if (e.key.toLowerCase() === 'q' || e.key.toLowerCase() === 'e') spinRef.current = 0;
+    };
+    const stopSpin = () => {
+        spinRef.current = 0;
     };
     window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [camera, isPaused]);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', stopSpin);
+    return () => {
+        window.removeEventListener('keydown', handleKeyDown);
+        window.removeEventListener('keyup', handleKeyUp);
+        window.removeEventListener('blur', stopSpin);
+    };
+  }, [camera, isPaused, gamePhase]);
 
-  const calculateShotPhysics = () => {
+  const getDragAim = (): AimLine | null => {
       if (!dragStart || !dragCurrent) return null;
       const sx = dragStart.x - dragCurrent.x;
       const sy = dragStart.y - dragCurrent.y;
@@ -209,79 +271,175 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       const vx = rx * cos - rz * sin;
       const vz = rx * sin + rz * cos;
 
-      // 1. Calculate Power Ratio (0 to 1)
+      // Power Ratio (0 to 1) from the drag length
       const dragLen = Math.sqrt(sx*sx + sy*sy);
       const powerRatio = Math.min(dragLen, MAX_DRAG_DISTANCE) / MAX_DRAG_DISTANCE;
-      
-      const club = CLUB_STATS[selectedClub];
 
-      // 2. Calculate Force Applied (Newtons)
-      const force = powerRatio * club.maxForce;
+      return { dirX: vx, dirZ: vz, powerRatio };
+  };
+
+  // Aim held without a drag: locked in for the swing meter, or set from keys or a gamepad
+  const getHeldAim = (): AimLine | null => {
+      if (swing) return swing.aim;
+      if (!keyAim) return null;
+      return { dirX: Math.cos(keyAim.heading), dirZ: Math.sin(keyAim.heading), powerRatio: keyAim.powerRatio };
+  };
 
-      // 3. Calculate Velocity Magnitude from Impulse-Momentum Theorem
-      // J = F * t = m * v  => v = (F * t) / m
-      const velocityMag = (force * PHYSICS_CONSTANTS.CONTACT_TIME) / PHYSICS_CONSTANTS.BALL_MASS;
+  // The drag while aiming, otherwise the held aim
+  const calculateShotPhysics = () => {
+      const aim = dragMode === 'AIM' ? getDragAim() : getHeldAim();
+      if (!aim) return null;
+      return computeShot(selectedClub, aim.powerRatio, aim.dirX, aim.dirZ, contactPoint, lie);
+  };
 
-      // 4. Calculate Dynamic Launch Angle
-      // Low power (Ratio near 0) -> Higher Angle (Chip shot) -> minAngle + angleRange
-      // High power (Ratio near 1) -> Lower Angle (Drive) -> minAngle
-      const angleDeg = club.minAngle + (1 - powerRatio) * club.angleRange;
-      const angleRad = angleDeg * (Math.PI / 180);
+  useEffect(() => {
+      const phys = calculateShotPhysics();
+      if (phys) {
+          // We need to calculate trajectory duration here to pass it up
+          // NOTE: We do not cache tiles here, passing tiles is fine as it is event based not per frame
+          const traj = calculateTrajectoryData(
+              ballPosition, 
+              phys.velocity, 
+              PHYSICS_CONFIG, 
+              tiles, 
+              CLUB_STATS[selectedClub].guideLines,
+              phys.spin,
+              { wind, time: windTime, entities }
+          );
+
+          onAim({
+              ...phys,
+              predictedTotalTime: traj.duration,
+              maxHeight: traj.maxHeight,
+              range: traj.range
+          });
+      } else {
+          onAim(null);
+      }
+  }, [dragMode, dragStart, dragCurrent, swing?.aim, keyAim, selectedClub, contactPoint, lie, camera.rotation, windTime]);
 
-      // 5. Decompose Velocity into Vector3
-      // Vertical component
-      const vY = velocityMag * Math.sin(angleRad);
-      
-      // Horizontal component magnitude
-      const vH = velocityMag * Math.cos(angleRad);
-      
-      // Horizontal direction normalized
-      const worldLen = Math.sqrt(vx*vx + vz*vz);
-      const dirX = worldLen === 0 ? 0 : vx / worldLen;
-      const dirZ = worldLen === 0 ? 0 : vz / worldLen;
-
-      const velocity = { 
-          x: dirX * vH, 
-          y: vY, 
-          z: dirZ * vH 
-      };
+  // --- SWING METER ---
+  // Only lives while the player can still swing in meter mode
+  useEffect(() => {
+      if (gamePhase !== GamePhase.AIMING || swingInput !== 'METER') setSwing(null);
+      if (gamePhase !== GamePhase.AIMING) setKeyAim(null);
+  }, [gamePhase, swingInput]);
 
-      return { 
-          velocity, 
-          force,
-          maxForce: club.maxForce,
-          powerRatio, 
-          launchAngle: angleDeg, 
-          mass: PHYSICS_CONSTANTS.BALL_MASS,
-          contactTime: PHYSICS_CONSTANTS.CONTACT_TIME
-      };
+  useEffect(() => {
+      onSwingMeter(swing?.meter ?? null);
+  }, [swing?.meter]);
+
+  const shootAim = (aim: AimLine) => {
+      const phys = computeShot(selectedClub, aim.powerRatio, aim.dirX, aim.dirZ, contactPoint, lie);
+      onShoot(phys.velocity, phys.spin, aim.powerRatio);
+  };
+
+  const strikeSwing = (aim: AimLine, power: number, accuracy: number) => {
+      const strike = getSwingStrike(power, accuracy);
+      setSwing(null);
+      if (strike.powerRatio <= 0) return;
+      const shot = computeShot(selectedClub, strike.powerRatio, aim.dirX, aim.dirZ, curveContact(contactPoint, strike.curve), lie);
+      onShoot(shot.velocity, shot.spin, strike.powerRatio);
   };
 
+  // Start, set power, set accuracy
+  const advanceSwing = () => {
+      if (!swing) return;
+      const now = performance.now();
+      const { aim, meter } = swing;
+      if (meter.stage === 'READY') setSwing({ aim, meter: startSwing(now) });
+      else if (meter.stage === 'POWER') setSwing({ aim, meter: setSwingPower(meter, now) });
+      else strikeSwing(aim, meter.power, getMeterPosition(meter, now));
+  };
+
+  // Left alone, an unset power drops back to ready and an unset accuracy swings late.
+  // A pause holds the meter: on resume its clock moves on by the time spent paused.
   useEffect(() => {
-      if (dragMode === 'AIM' && dragStart && dragCurrent) {
-          const phys = calculateShotPhysics();
-          if (phys) {
-              // We need to calculate trajectory duration here to pass it up
-               // NOTE: We do not cache tiles here, passing tiles is fine as it is event based not per frame
-               const traj = calculateTrajectoryData(
-                 ballPosition, 
-                 phys.velocity, 
-                 PHYSICS_CONFIG, 
-                 tiles, 
-                 CLUB_STATS[selectedClub].guideLines
-             );
-
-             onAim({
-                 ...phys,
-                 predictedTotalTime: traj.duration,
-                 maxHeight: traj.maxHeight,
-                 range: traj.range
-             });
+      if (isPaused) {
+          pausedAtRef.current ??= performance.now();
+          return;
+      }
+      const pausedAt = pausedAtRef.current;
+      pausedAtRef.current = null;
+      if (swing && pausedAt !== null) {
+          setSwing({ aim: swing.aim, meter: resumeSwing(swing.meter, performance.now() - pausedAt) });
+          return;
+      }
+      if (!swing || swing.meter.stage === 'READY') return;
+      const { aim, meter } = swing;
+      const timer = setTimeout(() => {
+          if (meter.stage === 'POWER') setSwing({ aim, meter: readyMeter() });
+          else strikeSwing(aim, meter.power, -METER_OVERRUN);
+      }, Math.max(0, getMeterTimeout(meter, performance.now())));
+      return () => clearTimeout(timer);
+  }, [swing, isPaused]);
+
+  // --- KEYS AND GAMEPAD ---
+  // Aim starts at the hole and moves in steps; a press of SWING shows it, the next one swings
+  const nudgeAim = (degrees: number, power: number) => {
+      if (isPaused || gamePhase !== GamePhase.AIMING || swing) return; // A locked swing needs Escape or B first
+      setKeyAim(prev => {
+          const from = prev ?? {
+              heading: Math.atan2(holePosition.z - ballPosition.z, holePosition.x - ballPosition.x),
+              powerRatio: DEFAULT_KEY_POWER,
+          };
+          return {
+              heading: from.heading + degrees * Math.PI / 180,
+              powerRatio: Math.max(0, Math.min(1, from.powerRatio + power)),
+          };
+      });
+  };
+
+  const handleInputAction = (action: InputAction, fine = false) => {
+      if (isPaused || gamePhase !== GamePhase.AIMING) return;
+      const step = fine ? FINE_STEP : 1;
+      switch (action) {
+          case 'AIM_LEFT': return nudgeAim(-AIM_STEP * step, 0); // Screen-anticlockwise
+          case 'AIM_RIGHT': return nudgeAim(AIM_STEP * step, 0);
+          case 'POWER_UP': return nudgeAim(0, POWER_STEP * step);
+          case 'POWER_DOWN': return nudgeAim(0, -POWER_STEP * step);
+          case 'PREV_CLUB': return onSelectClub(cycleClub(selectedClub, -1, lie));
+          case 'NEXT_CLUB': return onSelectClub(cycleClub(selectedClub, 1, lie));
+          case 'CANCEL':
+              setSwing(null);
+              setKeyAim(null);
+              return;
+          case 'SWING': {
+              if (swing) return advanceSwing();
+              const aim = getHeldAim();
+              if (!aim) return nudgeAim(0, 0);
+              if (aim.powerRatio <= 0) return;
+              if (swingInput === 'METER') setSwing({ aim, meter: startSwing(performance.now()) });
+              else shootAim(aim);
           }
-      } else {
-          onAim(null);
       }
-  }, [dragMode, dragStart, dragCurrent, selectedClub, camera.rotation]);
+  };
+
+  // Key and gamepad handlers outlive renders, so they reach the latest state through here
+  const inputRef = useRef({ handleInputAction, nudgeAim });
+  inputRef.current = { handleInputAction, nudgeAim };
+
+  // The Gamepad API has no events for buttons or sticks, so poll every frame
+  useEffect(() => {
+      let animId: number;
+      let last = performance.now();
+      const pressed = new Map<number, boolean[]>();
+      const poll = () => {
+          const now = performance.now();
+          const dt = Math.min(0.1, (now - last) / 1000);
+          last = now;
+          for (const pad of navigator.getGamepads?.() ?? []) {
+              if (!pad) continue;
+              const read = readGamepad(pad, pressed.get(pad.index) ?? [], dt);
+              pressed.set(pad.index, read.pressed);
+              read.actions.forEach(action => inputRef.current.handleInputAction(action));
+              if (read.aim !== 0 || read.power !== 0) inputRef.current.nudgeAim(read.aim, read.power);
+          }
+          animId = requestAnimationFrame(poll);
+      };
+      animId = requestAnimationFrame(poll);
+      return () => cancelAnimationFrame(animId);
+  }, []);
 
   useEffect(() => {
     if (!initialized && tiles.length > 0) {
@@ -296,9 +454,6 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
             zoom: 1,
             offset: { x: window.innerWidth / 2, y: window.innerHeight * 0.5 }
         });
-        
-        // Clear cache on new level
-        terrainCacheRef.current = null;
 
         setTimeout(() => {
             setInitialized(true);
@@ -306,137 +461,69 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     }
   }, [tiles, initialized, ballPosition, holePosition]);
 
-  // DRAW FUNCTIONS
-  const drawQuad = (ctx: CanvasRenderingContext2D, p1: any, p2: any, p3: any, p4: any, color: string) => {
-      ctx.fillStyle = color;
-      ctx.beginPath();
-      ctx.moveTo(p1.x, p1.y);
-      ctx.lineTo(p2.x, p2.y);
-      ctx.lineTo(p3.x, p3.y);
-      ctx.lineTo(p4.x, p4.y);
-      ctx.closePath();
-      ctx.fill();
-  };
-
-  const drawTile3D = (ctx: CanvasRenderingContext2D, tile: Tile) => {
-    const c1 = { x: tile.x - 0.5, y: tile.height, z: tile.z - 0.5 };
-    const c2 = { x: tile.x + 0.5, y: tile.height, z: tile.z - 0.5 };
-    const c3 = { x: tile.x + 0.5, y: tile.height, z: tile.z + 0.5 };
-    const c4 = { x: tile.x - 0.5, y: tile.height, z: tile.z + 0.5 };
-
-    const s1 = worldToScreen(c1);
-    const s2 = worldToScreen(c2);
-    const s3 = worldToScreen(c3);
-    const s4 = worldToScreen(c4);
-
-    const topColor = COLORS[tile.type];
-    let sideColor = SIDE_COLORS.SOIL;
-    if (tile.type === TileType.WATER) sideColor = SIDE_COLORS.WATER;
-    else if (tile.type === TileType.SAND) sideColor = SIDE_COLORS.SAND;
-    else if (tile.type === TileType.GRAVEL) sideColor = SIDE_COLORS.STONE;
-
-    const floorY = tile.type === TileType.WATER ? tile.height - 0.5 : BASE_GROUND_LEVEL;
-    
-    if (floorY < tile.height) {
-        const b1 = worldToScreen({ ...c1, y: floorY });
-        const b2 = worldToScreen({ ...c2, y: floorY });
-        const b3 = worldToScreen({ ...c3, y: floorY });
-        const b4 = worldToScreen({ ...c4, y: floorY });
-
-        drawQuad(ctx, s1, s2, b2, b1, sideColor);
-        drawQuad(ctx, s2, s3, b3, b2, sideColor);
-        drawQuad(ctx, s3, s4, b4, b3, sideColor);
-        drawQuad(ctx, s4, s1, b1, b4, sideColor);
-        // Shadows
-        ctx.fillStyle = "rgba(0,0,0,0.1)"; drawQuad(ctx, s1, s2, b2, b1, "rgba(0,0,0,0.1)");
-        ctx.fillStyle = "rgba(0,0,0,0.2)"; drawQuad(ctx, s2, s3, b3, b2, "rgba(0,0,0,0.2)");
-        ctx.fillStyle = "rgba(0,0,0,0.3)"; drawQuad(ctx, s3, s4, b4, b3, "rgba(0,0,0,0.3)");
-    }
-
-    ctx.beginPath();
-    ctx.moveTo(s1.x, s1.y);
-    ctx.lineTo(s2.x, s2.y);
-    ctx.lineTo(s3.x, s3.y);
-    ctx.lineTo(s4.x, s4.y);
-    ctx.closePath();
-    ctx.fillStyle = topColor;
-    ctx.fill();
-    ctx.strokeStyle = topColor;
-    ctx.lineWidth = 1;
-    ctx.stroke();
-
-    const center = worldToScreen({x: tile.x, y: tile.height, z: tile.z});
-    const size = TILE_SIZE * camera.zoom;
-    
-    // Draw Objects on top of tiles
-    if (tile.type === TileType.TREE) drawTree(ctx, center, size);
-    if (tile.type === TileType.OBSTACLE) drawRock(ctx, center, size);
-    if (tile.type === TileType.ROUGH) drawGrass(ctx, center, size, tile.x, tile.z);
-  };
+  // --- CAMERA CONTROLLER ---
+  useEffect(() => {
+      manualCameraRef.current = false;
+  }, [gamePhase]);
 
-  const drawTree = (ctx: CanvasRenderingContext2D, basePos: {x: number, y: number}, size: number) => {
-      ctx.fillStyle = '#451a03';
-      const trunkW = size * 0.25;
-      const trunkH = size * 0.6;
-      ctx.fillRect(basePos.x - trunkW/2, basePos.y - trunkH, trunkW, trunkH);
-      ctx.fillStyle = '#14532d';
-      ctx.beginPath();
-      ctx.moveTo(basePos.x, basePos.y - trunkH - size * 1.2); 
-      ctx.lineTo(basePos.x + size * 0.7, basePos.y - trunkH + size * 0.1);
-      ctx.lineTo(basePos.x - size * 0.7, basePos.y - trunkH + size * 0.1);
-      ctx.fill();
-      ctx.beginPath();
-      ctx.moveTo(basePos.x, basePos.y - trunkH - size * 0.8);
-      ctx.lineTo(basePos.x + size * 0.7, basePos.y - trunkH + size * 0.4);
-      ctx.lineTo(basePos.x - size * 0.7, basePos.y - trunkH + size * 0.4);
-      ctx.fill();
-  };
+  useEffect(() => {
+      if (!cameraFollow) takeCamera();
+  }, [cameraFollow]);
 
-  const drawRock = (ctx: CanvasRenderingContext2D, basePos: {x: number, y: number}, size: number) => {
-      // Draw a simple rock shape
-      const s = size * 0.5;
-      ctx.fillStyle = '#78716c'; // Stone color
-      ctx.beginPath();
-      ctx.moveTo(basePos.x - s*0.8, basePos.y);
-      ctx.lineTo(basePos.x - s*0.4, basePos.y - s*0.7);
-      ctx.lineTo(basePos.x + s*0.3, basePos.y - s*0.8);
-      ctx.lineTo(basePos.x + s*0.8, basePos.y - s*0.2);
-      ctx.lineTo(basePos.x + s*0.5, basePos.y + s*0.3); // bit below "ground" visual
-      ctx.lineTo(basePos.x - s*0.6, basePos.y + s*0.2);
-      ctx.closePath();
-      ctx.fill();
-      
-      // Highlight
-      ctx.fillStyle = '#a8a29e';
-      ctx.beginPath();
-      ctx.moveTo(basePos.x - s*0.4, basePos.y - s*0.7);
-      ctx.lineTo(basePos.x + s*0.3, basePos.y - s*0.8);
-      ctx.lineTo(basePos.x, basePos.y - s*0.3);
-      ctx.fill();
-  };
+  // Before a shot: frame the ball and the hole
+  useEffect(() => {
+      if (!cameraFollow || !initialized || gamePhase !== GamePhase.AIMING) return;
+      const goal = cameraGoalRef.current;
+      const framed = framePoints([ballPosition, holePosition], goal?.rotation ?? camera.rotation, getViewport(), FRAME_MARGIN);
+      cameraGoalRef.current = { ...goal, pivot: framed.pivot, zoom: Math.min(FRAME_MAX_ZOOM, framed.zoom) };
+  }, [gamePhase, ballPosition.x, ballPosition.z, holePosition, cameraFollow, initialized]);
+
+  // In flight: pull out far enough to take in the predicted carry, never in, and chase the ball
+  const flightZoomRef = useRef(1);
+  useEffect(() => {
+      if (gamePhase !== GamePhase.EXECUTING || !lastTrajectory || lastTrajectory.points.length < 2) return;
+      const { points } = lastTrajectory;
+      const carry = framePoints([points[0], points[points.length - 1]], camera.rotation, getViewport(), FRAME_MARGIN);
+      flightZoomRef.current = Math.max(FLIGHT_MIN_ZOOM, Math.min(camera.zoom, carry.zoom));
+  }, [gamePhase]);
 
-  const drawGrass = (ctx: CanvasRenderingContext2D, basePos: {x: number, y: number}, size: number, tx: number, tz: number) => {
-      // Deterministic randomness based on tile coord
-      const seed = Math.sin(tx * 12.9898 + tz * 78.233) * 43758.5453;
-      if ((seed - Math.floor(seed)) > 0.4) return; 
+  useEffect(() => {
+      if (!cameraFollow || manualCameraRef.current || gamePhase !== GamePhase.EXECUTING) return;
+      cameraGoalRef.current = { ...cameraGoalRef.current, pivot: { x: ballPosition.x, z: ballPosition.z }, zoom: flightZoomRef.current };
+  }, [gamePhase, ballPosition, cameraFollow]);
 
-      ctx.strokeStyle = '#14532d'; // Darker green
-      ctx.lineWidth = 1 * camera.zoom;
-      
-      // Draw 2-3 blades
-      for(let i=-1; i<=1; i++) {
-         ctx.beginPath();
-         ctx.moveTo(basePos.x + i*3*camera.zoom, basePos.y);
-         ctx.lineTo(basePos.x + i*4*camera.zoom + (i%2)*2, basePos.y - 6*camera.zoom);
-         ctx.stroke();
-      }
-  };
+  useEffect(() => {
+      let animId: number;
+      let last = performance.now();
+      const step = () => {
+          const now = performance.now();
+          if (spinRef.current !== 0) {
+              const goal = cameraGoalRef.current;
+              const rotation = (goal?.rotation ?? cameraRef.current.rotation) + spinRef.current * ROTATE_SPEED * Math.min(0.1, (now - last) / 1000);
+              cameraGoalRef.current = { ...goal, rotation };
+          }
+          const goal = cameraGoalRef.current;
+          if (goal) {
+              const result = stepCamera(cameraRef.current, goal, getViewport(), Math.min(0.1, (now - last) / 1000));
+              cameraGoalRef.current = result.goal;
+              cameraRef.current = result.camera;
+              setCamera(result.camera);
+          }
+          last = now;
+          animId = requestAnimationFrame(step);
+      };
+      animId = requestAnimationFrame(step);
+      return () => cancelAnimationFrame(animId);
+  }, []);
 
-  const drawBall = (ctx: CanvasRenderingContext2D, pos: Vector3) => {
+  // DRAW FUNCTIONS
+  const drawBall = (ctx: CanvasRenderingContext2D, pos: Vector3, color: string) => {
     const screenPos = worldToScreen(pos);
-    const radius = 5 * camera.zoom;
-    const shadowPos = worldToScreen({ x: pos.x, y: Math.max(pos.y > 0 ? 0 : pos.y, BASE_GROUND_LEVEL), z: pos.z });
-    const height = Math.max(0, pos.y);
+    const radius = BALL_SCREEN_RADIUS * camera.zoom;
+    const groundTile = getTileAt(getTileGrid(tiles), pos);
+    const groundY = groundTile ? getSurfaceHeight(groundTile, pos.x, pos.z) : BASE_GROUND_LEVEL;
+    const shadowPos = worldToScreen({ x: pos.x, y: Math.max(Math.min(pos.y, groundY), BASE_GROUND_LEVEL), z: pos.z });
+    const height = Math.max(0, pos.y - groundY);
     const shadowScale = Math.max(0.2, 1 - height/10);
     
     ctx.beginPath();
@@ -457,10 +544,193 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
 
     ctx.beginPath();
     ctx.arc(screenPos.x, screenPos.y, radius, 0, Math.PI * 2);
-    ctx.fillStyle = 'white';
+    ctx.fillStyle = color;
     ctx.fill();
-    ctx.strokeStyle = '#ddd';
+    ctx.strokeStyle = 'rgba(0,0,0,0.25)';
+    ctx.stroke();
+  };
+
+  // Tiles close enough in front of a ball, and tall enough, to cover some of it on screen,
+  // back to front. The ball's own tile is under it, never in front.
+  const getOccluders = (pos: Vector3): Tile[] => {
+    const grid = getTileGrid(tiles);
+    const depthOf = (tile: Tile) => worldToScreen({ x: tile.x, y: 0, z: tile.z }).depth;
+    const ballDepth = worldToScreen(pos).depth;
+    const cx = Math.round(pos.x);
+    const cz = Math.round(pos.z);
+    const occluders: Tile[] = [];
+    for (let i = -OCCLUDER_RANGE; i <= OCCLUDER_RANGE; i++) {
+      for (let j = -OCCLUDER_RANGE; j <= OCCLUDER_RANGE; j++) {
+        const tile = getTileAtCell(grid, cx + i, cz + j);
+        if (!tile || (i === 0 && j === 0)) continue;
+        if (getTileTop(tile) > pos.y - PHYSICS_CONSTANTS.BALL_RADIUS && depthOf(tile) > ballDepth) occluders.push(tile);
+      }
+    }
+    return occluders.sort((a, b) => depthOf(a) - depthOf(b));
+  };
+
+  // The terrain is one picture under every ball, so whatever stands in front of a ball is
+  // drawn again over it, clipped to the ball and its shadow. A ball that ends up covered
+  // gets an outline so it can still be found.
+  const drawBallInScene = (ctx: CanvasRenderingContext2D, pos: Vector3, color: string) => {
+    drawBall(ctx, pos, color);
+    const occluders = getOccluders(pos);
+    if (occluders.length === 0) return;
+
+    const groundTile = getTileAt(getTileGrid(tiles), pos);
+    const groundY = groundTile ? getSurfaceHeight(groundTile, pos.x, pos.z) : BASE_GROUND_LEVEL;
+    const screenPos = worldToScreen(pos);
+    const shadowPos = worldToScreen({ ...pos, y: Math.max(Math.min(pos.y, groundY), BASE_GROUND_LEVEL) });
+    const radius = BALL_SCREEN_RADIUS * camera.zoom;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(screenPos.x - radius - 1, screenPos.y - radius - 1, 2 * radius + 2, Math.max(0, shadowPos.y - screenPos.y) + 2 * radius + 2);
+    ctx.clip();
+    occluders.forEach(tile => drawTile3D(ctx, tile, camera, palette));
+    ctx.restore();
+
+    // Covered if something in front reaches up past the ball within about a tile's width of it
+    const hidden = occluders.some(tile => {
+        const top = worldToScreen({ x: tile.x, y: getTileTop(tile), z: tile.z });
+        return top.y < screenPos.y - radius && Math.abs(top.x - screenPos.x) < TILE_SIZE * camera.zoom * 0.9;
+    });
+    if (!hidden) return;
+    ctx.beginPath();
+    ctx.arc(screenPos.x, screenPos.y, radius, 0, Math.PI * 2);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([3, 2]);
     ctx.stroke();
+    ctx.setLineDash([]);
+  };
+
+  const drawEntity = (ctx: CanvasRenderingContext2D, entity: LevelEntity, levelTime: number) => {
+    const pose = getEntityPose(entity, levelTime);
+    const zoom = camera.zoom;
+
+    if (entity.type === 'WINDMILL') {
+        const hub = pose.position;
+        const base = worldToScreen({ ...hub, y: hub.y - entity.armLength });
+        const center = worldToScreen(hub);
+        ctx.strokeStyle = '#78350f';
+        ctx.lineWidth = 4 * zoom;
+        ctx.beginPath();
+        ctx.moveTo(base.x, base.y);
+        ctx.lineTo(center.x, center.y);
+        ctx.stroke();
+
+        ctx.lineCap = 'round';
+        getBlades(entity, pose.angle).forEach((blade, i) => {
+            const tip = worldToScreen({
+                x: hub.x + blade.dir.x * entity.armLength,
+                y: hub.y + blade.dir.y * entity.armLength,
+                z: hub.z + blade.dir.z * entity.armLength,
+            });
+            ctx.strokeStyle = i % 2 === 0 ? '#f8fafc' : '#dc2626';
+            ctx.lineWidth = 6 * zoom;
+            ctx.beginPath();
+            ctx.moveTo(center.x, center.y);
+            ctx.lineTo(tip.x, tip.y);
+            ctx.stroke();
+        });
+        ctx.lineCap = 'butt';
+
+        ctx.fillStyle = '#1e293b';
+        ctx.beginPath();
+        ctx.arc(center.x, center.y, 4 * zoom, 0, Math.PI * 2);
+        ctx.fill();
+    } else if (entity.type === 'SLIDING_BLOCK') {
+        const { x, y, z } = pose.position;
+        const hx = entity.size.x / 2, hz = entity.size.z / 2, top = y + entity.size.y;
+        const corners = [
+            { x: x - hx, z: z - hz }, { x: x + hx, z: z - hz }, { x: x + hx, z: z + hz }, { x: x - hx, z: z + hz },
+        ];
+        const low = corners.map(c => worldToScreen({ ...c, y }));
+        const high = corners.map(c => worldToScreen({ ...c, y: top }));
+        // Back faces first so the near ones cover them
+        const faces = [0, 1, 2, 3].map(i => {
+            const j = (i + 1) % 4;
+            const mid = { x: (corners[i].x + corners[j].x) / 2, y, z: (corners[i].z + corners[j].z) / 2 };
+            return { i, j, depth: worldToScreen(mid).depth };
+        }).sort((a, b) => a.depth - b.depth);
+        faces.forEach(({ i, j }, k) => drawQuad(ctx, high[i], high[j], low[j], low[i], k < 2 ? '#6d28d9' : '#7c3aed'));
+        drawQuad(ctx, high[0], high[1], high[2], high[3], '#a78bfa');
+    } else if (entity.type === 'BUMPER') {
+        const pivot = worldToScreen(entity.position);
+        const base = worldToScreen(pose.position);
+        const top = worldToScreen({ ...pose.position, y: pose.position.y + BUMPER_HEIGHT });
+        const r = entity.radius * TILE_SIZE * zoom;
+
+        ctx.strokeStyle = 'rgba(30,41,59,0.6)';
+        ctx.lineWidth = 2 * zoom;
+        ctx.beginPath();
+        ctx.moveTo(pivot.x, pivot.y);
+        ctx.lineTo(base.x, base.y);
+        ctx.stroke();
+
+        ctx.fillStyle = '#b91c1c';
+        ctx.fillRect(base.x - r, top.y, r * 2, base.y - top.y);
+        ctx.beginPath();
+        ctx.ellipse(base.x, base.y, r, r / 2, 0, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = '#ef4444';
+        ctx.strokeStyle = 'white';
+        ctx.beginPath();
+        ctx.ellipse(top.x, top.y, r, r / 2, 0, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+    } else if (entity.type === 'CONVEYOR') {
+        const tileGrid = getTileGrid(tiles);
+        const speed = Math.hypot(pose.velocity.x, pose.velocity.z);
+        const dir = speed > 0 ? { x: pose.velocity.x / speed, z: pose.velocity.z / speed } : { x: 1, z: 0 };
+        const shift = (levelTime * speed) % 1;
+        const surface = (x: number, z: number) => {
+            const tile = getTileAtCell(tileGrid, Math.round(x), Math.round(z));
+            return (tile ? getSurfaceHeight(tile, x, z) : pose.position.y) + 0.02;
+        };
+        const at = (x: number, z: number) => worldToScreen({ x, y: surface(x, z), z });
+
+        entity.cells.forEach(cell => {
+            const inset = 0.45;
+            drawQuad(ctx,
+                at(cell.x - inset, cell.z - inset), at(cell.x + inset, cell.z - inset),
+                at(cell.x + inset, cell.z + inset), at(cell.x - inset, cell.z + inset), '#334155');
+
+            // Chevrons scroll with the belt
+            ctx.strokeStyle = '#facc15';
+            ctx.lineWidth = 2 * zoom;
+            for (const offset of [0, 0.5]) {
+                const d = ((offset + shift) % 1) - 0.4;
+                const tipX = cell.x + dir.x * (d + 0.15), tipZ = cell.z + dir.z * (d + 0.15);
+                const tailX = cell.x + dir.x * (d - 0.1), tailZ = cell.z + dir.z * (d - 0.1);
+                const a = at(tailX - dir.z * 0.25, tailZ + dir.x * 0.25);
+                const b = at(tipX, tipZ);
+                const c = at(tailX + dir.z * 0.25, tailZ - dir.x * 0.25);
+                ctx.beginPath();
+                ctx.moveTo(a.x, a.y);
+                ctx.lineTo(b.x, b.y);
+                ctx.lineTo(c.x, c.y);
+                ctx.stroke();
+            }
+        });
+    } else if (entity.type === 'TELEPORTER') {
+        const pulse = 0.5 + 0.5 * Math.sin(levelTime * 4);
+        [entity.position, entity.exit].forEach(pad => {
+            ctx.beginPath();
+            for (let k = 0; k <= 16; k++) {
+                const a = (k / 16) * Math.PI * 2;
+                const p = worldToScreen({ x: pad.x + Math.cos(a) * entity.radius, y: pad.y + 0.02, z: pad.z + Math.sin(a) * entity.radius });
+                if (k === 0) ctx.moveTo(p.x, p.y);
+                else ctx.lineTo(p.x, p.y);
+            }
+            ctx.closePath();
+            ctx.fillStyle = `rgba(34, 211, 238, ${0.35 + 0.3 * pulse})`;
+            ctx.fill();
+            ctx.strokeStyle = '#a5f3fc';
+            ctx.lineWidth = 2 * zoom;
+            ctx.stroke();
+        });
+    }
   };
 
   const drawHole = (ctx: CanvasRenderingContext2D, pos: Vector3) => {
@@ -484,7 +754,8 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     ctx.fill();
   };
 
-  const drawPowerBar = (ctx: CanvasRenderingContext2D, screenPos: {x: number, y: number}, ratio: number) => {
+  // `strike` is what reaches the ball after the lie; the rest of the swing shows hollow
+  const drawPowerBar = (ctx: CanvasRenderingContext2D, screenPos: {x: number, y: number}, ratio: number, strike: number) => {
       const barHeight = 100; const barWidth = 16;
       const x = screenPos.x + 40; const y = screenPos.y - barHeight / 2;
       
@@ -493,9 +764,15 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       ctx.fillRect(x, y, barWidth, barHeight);
       
       let color = '#4ade80'; if (ratio > 0.5) color = '#facc15'; if (ratio > 0.8) color = '#ef4444'; 
-      const fillHeight = barHeight * ratio;
+      const fillHeight = barHeight * strike;
       ctx.fillStyle = color;
       ctx.fillRect(x + 2, y + barHeight - fillHeight, barWidth - 4, fillHeight);
+      if (strike < ratio) {
+          ctx.strokeStyle = color;
+          ctx.setLineDash([2, 2]);
+          ctx.strokeRect(x + 2.5, y + barHeight - barHeight * ratio, barWidth - 5, barHeight * (ratio - strike));
+          ctx.setLineDash([]);
+      }
       
       ctx.strokeStyle = 'rgba(255,255,255,0.8)';
       ctx.lineWidth = 1;
@@ -506,6 +783,11 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       ctx.font = 'bold 12px monospace';
       const pct = Math.round(ratio * 100);
       ctx.fillText(`${pct}%`, x + barWidth + 6, y + barHeight);
+      if (strike < ratio) {
+          ctx.fillStyle = '#fca5a5';
+          ctx.font = '10px sans-serif';
+          ctx.fillText(`${lie} −${Math.round((1 - strike / ratio) * 100)}%`, x + barWidth + 6, y + barHeight - 14);
+      }
       
       // Club Label
       ctx.fillStyle = '#ccc';
@@ -513,15 +795,60 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
       ctx.fillText(selectedClub, x, y - 5);
   };
 
+  // Compass-style arrow pointing where the wind blows, in the current camera view
+  const drawWindIndicator = (ctx: CanvasRenderingContext2D, cx: number, cy: number) => {
+      const w = getWindAloft(wind, windTime);
+      const speed = Math.hypot(w.x, w.z);
+      const radius = 28;
+
+      ctx.beginPath();
+      ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+      ctx.fillStyle = 'rgba(15,23,42,0.6)';
+      ctx.fill();
+      ctx.strokeStyle = 'rgba(255,255,255,0.5)';
+      ctx.lineWidth = 1;
+      ctx.stroke();
+
+      if (speed > 0.05) {
+          // Screen direction of the world wind vector (offset-independent)
+          const origin = worldToScreen({ x: 0, y: 0, z: 0 });
+          const tip = worldToScreen({ x: w.x / speed, y: 0, z: w.z / speed });
+          const angle = Math.atan2(tip.y - origin.y, tip.x - origin.x);
+          const len = radius * 0.75;
+
+          ctx.save();
+          ctx.translate(cx, cy);
+          ctx.rotate(angle);
+          ctx.beginPath();
+          ctx.moveTo(-len, 0);
+          ctx.lineTo(len, 0);
+          ctx.moveTo(len, 0);
+          ctx.lineTo(len - 8, -5);
+          ctx.moveTo(len, 0);
+          ctx.lineTo(len - 8, 5);
+          ctx.strokeStyle = speed > 8 ? '#f87171' : speed > 4 ? '#facc15' : '#e2e8f0';
+          ctx.lineWidth = 3;
+          ctx.stroke();
+          ctx.restore();
+      }
+
+      ctx.fillStyle = 'white';
+      ctx.font = 'bold 11px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText(`${speed.toFixed(1)} m/s`, cx, cy + radius + 14);
+      ctx.font = '9px sans-serif';
+      ctx.fillText('WIND', cx, cy - radius - 6);
+      ctx.textAlign = 'start';
+  };
+
   // GENERIC TRAJECTORY DRAWER with Labels
-  const drawTrajectoryWithLabels = (ctx: CanvasRenderingContext2D, data: TrajectoryData, isGhost: boolean) => {
+  const drawTrajectoryWithLabels = (ctx: CanvasRenderingContext2D, data: TrajectoryData, isGhost: boolean, dispersion?: Dispersion) => {
     const points = data.points;
     if (points.length < 2) return;
 
     const start = points[0];
     const startScreen = worldToScreen(start);
     const end = points[points.length-1];
-    const endScreen = worldToScreen(end);
 
     const opacity = isGhost ? 0.4 : 0.9; 
     const color = `rgba(255,255,255,${opacity})`;
@@ -574,12 +901,27 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     const midY = (startScreen.y + endGround.y) / 2;
     ctx.fillText(`R: ${data.range.toFixed(1)}m`, midX, midY + 15);
 
-    // Landing Circle (Only for active aiming)
-    if (!isGhost && points.length > 5) {
+    // Landing Dispersion (Only for active aiming)
+    // Where the shot could finish: a ground ellipse around the landing point, long by the
+    // carry it could gain or lose (carry goes with speed squared) and wide by the heading miss
+    if (!isGhost && dispersion && points.length > 5) {
+         const dx = end.x - start.x;
+         const dz = end.z - start.z;
+         const carry = Math.hypot(dx, dz);
+         const along = carry > 0 ? { x: dx / carry, z: dz / carry } : { x: 1, z: 0 };
          const pulse = 1 + Math.sin(time * 5) * 0.1;
-         const radius = 15 * camera.zoom * pulse;
+         const long = Math.max(MIN_DISPERSION_RADIUS, carry * 2 * dispersion.power) * pulse;
+         const wide = Math.max(MIN_DISPERSION_RADIUS, carry * Math.tan(dispersion.heading * Math.PI / 180)) * pulse;
          ctx.beginPath();
-         ctx.ellipse(endScreen.x, endScreen.y, radius, radius * 0.5, 0, 0, Math.PI * 2);
+         for (let i = 0; i <= DISPERSION_SEGMENTS; i++) {
+             const a = (i / DISPERSION_SEGMENTS) * Math.PI * 2;
+             const l = Math.cos(a) * long;
+             const w = Math.sin(a) * wide;
+             const p = worldToScreen({ x: end.x + along.x * l - along.z * w, y: end.y, z: end.z + along.z * l + along.x * w });
+             if (i === 0) ctx.moveTo(p.x, p.y);
+             else ctx.lineTo(p.x, p.y);
+         }
+         ctx.closePath();
          ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
          ctx.fill();
          ctx.strokeStyle = 'white';
@@ -589,6 +931,22 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
     }
   };
 
+  // Terrain goes to WebGL where the browser has it, and to Canvas2D otherwise
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!terrainCanvasRef.current || !ctx) return;
+    const renderer = createTerrainRenderer(terrainCanvasRef.current, ctx);
+    rendererRef.current = renderer;
+    return () => {
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    rendererRef.current?.setTiles(tiles);
+  }, [tiles]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -603,61 +961,54 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
             canvas.height = rect.height * dpr;
             canvas.style.width = `${rect.width}px`;
             canvas.style.height = `${rect.height}px`;
-            // Invalidate cache on resize
-            terrainCacheRef.current = null;
         }
         ctx.scale(dpr, dpr);
     }
 
-    // CACHING LOGIC
-    // If cache is missing or invalidated, redraw the static terrain to the cache
-    if (!terrainCacheRef.current) {
-        const cache = document.createElement('canvas');
-        cache.width = canvas.width; // Already DPR scaled
-        cache.height = canvas.height;
-        const cCtx = cache.getContext('2d');
-        if (cCtx) {
-            cCtx.scale(dpr, dpr); // Scale cache context too
-            
-            // Sort tiles for Painter's Algorithm
-            // We need to re-sort here based on current camera rotation if we wanted perfection, 
-            // but the iso sort approximation (x+z) generally holds for 4-way rotation if we just redraw.
-            // Actually, we need to sort based on projected depth.
-            const sorted = [...tiles].sort((a, b) => {
-                 const depthA = worldToScreen({ x: a.x, y: 0, z: a.z }).depth;
-                 const depthB = worldToScreen({ x: b.x, y: 0, z: b.z }).depth;
-                 return depthA - depthB;
-            });
-            
-            sorted.forEach(tile => drawTile3D(cCtx, tile));
-            drawHole(cCtx, holePosition);
-            
-            terrainCacheRef.current = cache;
-        }
-    }
-
     const render = () => {
-      ctx.clearRect(0, 0, canvas.width / dpr, canvas.height / dpr);
+      const viewWidth = canvas.width / dpr;
+      const viewHeight = canvas.height / dpr;
+      ctx.clearRect(0, 0, viewWidth, viewHeight);
       
-      // 1. Draw Cached Terrain
-      if (terrainCacheRef.current) {
-          ctx.save();
-          ctx.resetTransform(); // Cache is already scaled and full size
-          ctx.drawImage(terrainCacheRef.current, 0, 0);
-          ctx.restore();
-      } else {
-          // Fallback if cache failed?
-          // Just draw manually (shouldnt happen)
-      }
+      // 1. Terrain, from whichever backend is drawing it
+      rendererRef.current?.draw({ camera, palette, dpr, width: viewWidth, height: viewHeight });
+      drawHole(ctx, holePosition);
+
+      // 1b. Moving entities, posed on the level clock
+      const levelTime = getLevelTime();
+      entities.forEach(entity => drawEntity(ctx, entity, levelTime));
 
       // 2. Draw Dynamic Elements
-      drawBall(ctx, ballPosition);
+      otherBalls.forEach(ball => drawBallInScene(ctx, ball.position, ball.color));
+      drawBallInScene(ctx, ballPosition, ballColor);
+
+      // 2b. Editor cursor
+      if (gamePhase === GamePhase.EDITING && hoverTile) {
+          const [h1, h2, h3, h4] = hoverTile.corners ?? [hoverTile.height, hoverTile.height, hoverTile.height, hoverTile.height];
+          const quad = [
+              worldToScreen({ x: hoverTile.x - 0.5, y: h1, z: hoverTile.z - 0.5 }),
+              worldToScreen({ x: hoverTile.x + 0.5, y: h2, z: hoverTile.z - 0.5 }),
+              worldToScreen({ x: hoverTile.x + 0.5, y: h3, z: hoverTile.z + 0.5 }),
+              worldToScreen({ x: hoverTile.x - 0.5, y: h4, z: hoverTile.z + 0.5 }),
+          ];
+          ctx.beginPath();
+          quad.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+          ctx.closePath();
+          ctx.fillStyle = 'rgba(255,255,255,0.25)';
+          ctx.fill();
+          ctx.strokeStyle = 'white';
+          ctx.lineWidth = 2;
+          ctx.stroke();
+      }
 
       // 3. Draw Ghost (Previous Shot)
       if (lastTrajectory) {
           drawTrajectoryWithLabels(ctx, lastTrajectory, true);
       }
 
+      // 3b. Wind Indicator (screen space, bottom right)
+      drawWindIndicator(ctx, canvas.width / dpr - 80, canvas.height / dpr - 190);
+
       // 4. Draw Current Aiming
       if (dragMode === 'AIM' && dragStart && dragCurrent) {
         ctx.beginPath();
@@ -668,79 +1019,161 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         ctx.setLineDash([2,2]);
         ctx.stroke();
         ctx.setLineDash([]);
-        
-        const phys = calculateShotPhysics();
-        if (phys && phys.powerRatio > 0.05) {
-             // Calculate trajectory only when aiming to save perf
-             // Actually we do this in the effect above, but we need to draw it.
-             // We can re-calc here, its cheap enough for one line.
-             const data = calculateTrajectoryData(
-                 ballPosition, 
-                 phys.velocity, 
-                 PHYSICS_CONFIG, 
-                 tiles, 
-                 CLUB_STATS[selectedClub].guideLines
-             );
-             drawTrajectoryWithLabels(ctx, data, false);
-             drawPowerBar(ctx, worldToScreen(ballPosition), phys.powerRatio);
-        }
+      }
+
+      // The drag, or the aim locked in for the swing meter
+      const phys = calculateShotPhysics();
+      if (phys && phys.powerRatio > 0.05) {
+           // Calculate trajectory only when aiming to save perf
+           // Actually we do this in the effect above, but we need to draw it.
+           // We can re-calc here, its cheap enough for one line.
+           const data = calculateTrajectoryData(
+               ballPosition, 
+               phys.velocity, 
+               PHYSICS_CONFIG, 
+               tiles, 
+               CLUB_STATS[selectedClub].guideLines,
+               phys.spin,
+               { wind, time: windTime, entities }
+           );
+           drawTrajectoryWithLabels(ctx, data, false, getDispersion(selectedClub, phys.powerRatio, lie));
+           drawPowerBar(ctx, worldToScreen(ballPosition), phys.powerRatio, phys.strikeRatio);
       }
     };
     render();
-  }, [tiles, ballPosition, holePosition, dragMode, dragStart, dragCurrent, camera, worldToScreen, selectedClub, time, lastTrajectory]);
+  }, [tiles, ballPosition, ballColor, otherBalls, holePosition, gamePhase, hoverTile, dragMode, dragStart, dragCurrent, camera, worldToScreen, selectedClub, contactPoint, wind, windTime, replayTime, time, lastTrajectory, entities, lie, swing, keyAim, palette]);
 
   const handleWheel = (e: React.WheelEvent) => {
       if (isPaused) return;
-      const newZoom = Math.max(0.5, Math.min(3, camera.zoom - e.deltaY * 0.001));
+      takeCamera();
+      const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, camera.zoom - e.deltaY * 0.001));
       setCamera(p => ({ ...p, zoom: newZoom }));
-      terrainCacheRef.current = null; // Invalidate
   };
 
+  // Where the first two fingers are: their midpoint, spread and angle on screen
+  const getTouchPair = () => {
+    const [a, b] = [...pointersRef.current.values()];
+    return {
+        mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+        distance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+        angle: Math.atan2(b.y - a.y, b.x - a.x),
+    };
+  };
+
+  const getGrabRadius = (e: React.PointerEvent) =>
+    e.pointerType === 'touch' ? Math.max(TOUCH_GRAB_RADIUS, BALL_GRAB_RADIUS * camera.zoom) : BALL_GRAB_RADIUS * camera.zoom;
+
   const handlePointerDown = (e: React.PointerEvent) => {
     if (isPaused) return;
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    (e.target as Element).setPointerCapture(e.pointerId);
+
+    // A second finger turns whatever the first was doing into a pinch and twist
+    if (pointersRef.current.size > 2) return;
+    if (pointersRef.current.size === 2) {
+        const pair = getTouchPair();
+        manualCameraRef.current = true;
+        cameraGoalRef.current = null;
+        pinchRef.current = { camera, pivot: screenToWorldIso(pair.mid.x, pair.mid.y), distance: pair.distance, angle: pair.angle };
+        lastEditRef.current = null;
+        setDragMode('PINCH');
+        setDragStart(null);
+        setDragCurrent(null);
+        return;
+    }
 
     const ballScreen = worldToScreen(ballPosition);
     const dist = Math.hypot(e.clientX - ballScreen.x, e.clientY - ballScreen.y);
-    if (dist < 60 * camera.zoom && gamePhase === GamePhase.AIMING) {
+    const grabRadius = getGrabRadius(e);
+    if (e.button === 2 || (e.altKey && e.button === 0)) {
+        // Right-drag or Alt-drag turns the view freely about the middle of the screen
+        setDragMode('ROTATE');
+        takeCamera();
+        cameraGoalRef.current = null;
+    } else if (gamePhase === GamePhase.EDITING && e.button === 0 && !e.shiftKey) {
+        // Left drag paints; shift-drag or another button still pans
+        setDragMode('EDIT');
+        const tile = pickTile(e.clientX, e.clientY);
+        lastEditRef.current = tile && `${tile.x},${tile.z}`;
+        if (tile) onEditTile?.(tile.x, tile.z, true);
+    } else if (swing && (swing.meter.stage !== 'READY' || dist >= grabRadius)) {
+        // Mid-swing every click is a meter click; before it, the ball can still be re-aimed
+        advanceSwing();
+        return;
+    } else if (dist < grabRadius && gamePhase === GamePhase.AIMING) {
         setDragMode('AIM');
+        setKeyAim(null);
+        takeCamera(); // Hold the ball still under the pointer
     } else {
         setDragMode('PAN');
     }
     setDragStart({ x: e.clientX, y: e.clientY });
     setDragCurrent({ x: e.clientX, y: e.clientY });
-    (e.target as Element).setPointerCapture(e.pointerId);
   };
 
   const handlePointerMove = (e: React.PointerEvent) => {
     if (isPaused) return;
-    
+    if (pointersRef.current.has(e.pointerId)) pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    // Pinch zooms and twist rotates about the point first under the fingers, which follows their midpoint
+    const pinch = pinchRef.current;
+    if (dragMode === 'PINCH') {
+        if (pinch && pointersRef.current.size >= 2) {
+            const pair = getTouchPair();
+            const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, pinch.camera.zoom * pair.distance / pinch.distance));
+            setCamera(cameraAround(pinch.pivot, pair.mid, pinch.camera.rotation + pair.angle - pinch.angle, zoom));
+        }
+        return;
+    }
+
     // Check hover for cursor
     const ballScreen = worldToScreen(ballPosition);
     const dist = Math.hypot(e.clientX - ballScreen.x, e.clientY - ballScreen.y);
-    if (dist < 60 * camera.zoom && gamePhase === GamePhase.AIMING) {
+    if (dist < getGrabRadius(e) && gamePhase === GamePhase.AIMING) {
         setIsHoveringBall(true);
     } else {
         setIsHoveringBall(false);
     }
 
+    if (gamePhase === GamePhase.EDITING) {
+        const tile = pickTile(e.clientX, e.clientY);
+        setHoverTile(tile);
+        const key = tile && `${tile.x},${tile.z}`;
+        if (dragMode === 'EDIT' && tile && key !== lastEditRef.current) {
+            lastEditRef.current = key;
+            onEditTile?.(tile.x, tile.z, false);
+        }
+    }
+
     if (dragMode === 'NONE') return;
     if (dragMode === 'PAN') {
+        takeCamera();
         const dx = e.clientX - dragCurrent!.x;
         const dy = e.clientY - dragCurrent!.y;
         setCamera(p => ({ ...p, offset: { x: p.offset.x + dx, y: p.offset.y + dy } }));
-        // Pan technically shifts offset, so we must invalidate or shift the image.
-        // Simple invalidation is easier.
-        terrainCacheRef.current = null;
+    }
+    if (dragMode === 'ROTATE') {
+        const angle = (e.clientX - dragCurrent!.x) * DRAG_ROTATE_SPEED;
+        const { width, height } = getViewport();
+        const centre = { x: width / 2, y: height / 2 };
+        setCamera(p => cameraAround(groundAt(p, centre), centre, p.rotation + angle, p.zoom));
     }
     setDragCurrent({ x: e.clientX, y: e.clientY });
   };
 
   const handlePointerUp = (e: React.PointerEvent) => {
+    if (!pointersRef.current.delete(e.pointerId)) return; // Not pressed, or already ended
     if (isPaused) return;
+    if (dragMode === 'PINCH' && pointersRef.current.size >= 2) return; // A third finger lifted
+    pinchRef.current = null;
     if (dragMode === 'AIM') {
-        const phys = calculateShotPhysics();
-        if (phys && phys.powerRatio > 0.1) onShoot(phys.velocity);
+        const aim = getDragAim();
+        if (aim && aim.powerRatio > 0.1) {
+            if (swingInput === 'METER') setSwing({ aim, meter: readyMeter() });
+            else shootAim(aim);
+        }
     }
+    lastEditRef.current = null;
     setDragMode('NONE');
     setDragStart(null);
     setDragCurrent(null);
@@ -755,13 +1188,25 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
         onPointerMove={handlePointerMove}
         onPointerUp={handlePointerUp}
         onPointerLeave={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onContextMenu={(e) => e.preventDefault()}
         onWheel={handleWheel}
     >
-      <canvas ref={canvasRef} className="w-full h-full block" />
+      <canvas
+          ref={terrainCanvasRef}
+          className="absolute inset-0 w-full h-full block pointer-events-none"
+          aria-hidden="true"
+      />
+      <canvas
+          ref={canvasRef}
+          className="relative w-full h-full block"
+          role="img"
+          aria-label="Golf hole. Arrow keys or WASD aim and set power, [ and ] change club, Enter or Space swings, Escape cancels. A gamepad works too."
+      />
       <div className="absolute bottom-6 right-6 flex flex-col gap-2 pointer-events-auto z-50">
           <div className="flex gap-2">
-            <button onClick={() => rotateCamera('LEFT')} className="cursor-pointer bg-white/80 text-black border border-white p-3 rounded-full shadow hover:bg-white hover:scale-105 active:scale-95 transition-all text-xl backdrop-blur font-bold" title="Rotate Left (Q)">↺</button>
-            <button onClick={() => rotateCamera('RIGHT')} className="cursor-pointer bg-white/80 text-black border border-white p-3 rounded-full shadow hover:bg-white hover:scale-105 active:scale-95 transition-all text-xl backdrop-blur font-bold" title="Rotate Right (E)">↻</button>
+            <button onClick={() => rotateCamera('LEFT')} className="cursor-pointer bg-white/80 text-black border border-white p-3 rounded-full shadow hover:bg-white hover:scale-105 active:scale-95 transition-all text-xl backdrop-blur font-bold" title="Rotate Left (hold Q, or right-drag)">↺</button>
+            <button onClick={() => rotateCamera('RIGHT')} className="cursor-pointer bg-white/80 text-black border border-white p-3 rounded-full shadow hover:bg-white hover:scale-105 active:scale-95 transition-all text-xl backdrop-blur font-bold" title="Rotate Right (hold E, or right-drag)">↻</button>
           </div>
           <div className="flex gap-2 justify-end">
             <button onClick={() => handleZoom(-0.2)} className="cursor-pointer bg-white/80 text-black border border-white p-3 rounded-full shadow hover:bg-white hover:scale-105 active:scale-95 transition-all text-xl backdrop-blur font-bold" title="Zoom Out (-)">-</button>
@@ -769,7 +1214,9 @@ const GameCanvas: React.FC<GameCanvasProps> = ({
           </div>
       </div>
       <div className="absolute bottom-6 left-6 text-slate-500 text-sm pointer-events-none bg-white/50 px-3 py-1 rounded backdrop-blur">
-          Scroll/Pinch to Zoom • Drag Background to Pan • Drag Ball to Shoot
+          {gamePhase === GamePhase.EDITING
+              ? 'Scroll to Zoom • Drag to Edit • Shift-Drag to Pan'
+              : 'Scroll/Pinch to Zoom • Twist to Rotate • Drag Background to Pan • Drag Ball or use Arrows + Enter to Shoot'}
       </div>
     </div>
   );
@@ -0,0 +1,118 @@
+import React, { useEffect } from 'react';
+import { Palette, TileType } from '../types';
+import { TILE_PALETTES } from '../constants';
+import { EditorTool, PAINTABLE_TILES, MIN_PAR, MAX_PAR } from '../services/levelEditor';
+
+interface LevelEditorPanelProps {
+  tool: EditorTool;
+  setTool: (tool: EditorTool) => void;
+  paintType: TileType;
+  setPaintType: (type: TileType) => void;
+  palette: Palette;
+  par: number;
+  onChangePar: (par: number) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onTestPlay: () => void;
+  onExit: () => void;
+}
+
+const TOOLS: { tool: EditorTool; label: string; title: string }[] = [
+  { tool: 'PAINT', label: '🖌 PAINT', title: 'Paint the selected surface' },
+  { tool: 'RAISE', label: '▲ RAISE', title: 'Raise tiles' },
+  { tool: 'LOWER', label: '▼ LOWER', title: 'Lower tiles' },
+  { tool: 'START', label: '● TEE', title: 'Place the start' },
+  { tool: 'HOLE', label: '⚑ HOLE', title: 'Place the hole' },
+];
+
+const LevelEditorPanel: React.FC<LevelEditorPanelProps> = ({
+  tool,
+  setTool,
+  paintType,
+  setPaintType,
+  palette,
+  par,
+  onChangePar,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onTestPlay,
+  onExit,
+}) => {
+  // Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey)) return;
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) {
+              e.preventDefault();
+              onUndo();
+          } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+              e.preventDefault();
+              onRedo();
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  const button = 'cursor-pointer px-3 py-1.5 rounded-lg transition-all active:scale-95 disabled:opacity-40 disabled:cursor-default';
+
+  return (
+    <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 pointer-events-auto z-50 bg-slate-900/95 backdrop-blur text-white p-4 rounded-xl border border-slate-700 shadow-2xl flex flex-col gap-3 text-xs font-bold max-w-[95vw]">
+      <div className="flex justify-between items-center gap-6">
+          <span className="text-slate-400 uppercase tracking-widest">Level Editor</span>
+          <div className="flex gap-2">
+              <button onClick={onUndo} disabled={!canUndo} className={`${button} bg-slate-700 hover:bg-slate-600`} title="Undo (Ctrl+Z)">↶ UNDO</button>
+              <button onClick={onRedo} disabled={!canRedo} className={`${button} bg-slate-700 hover:bg-slate-600`} title="Redo (Ctrl+Y)">↷ REDO</button>
+          </div>
+      </div>
+
+      <div className="flex gap-1 flex-wrap">
+          {TOOLS.map(t => (
+              <button
+                  key={t.tool}
+                  onClick={() => setTool(t.tool)}
+                  title={t.title}
+                  className={`${button} ${tool === t.tool ? 'bg-white text-black' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+              >
+                  {t.label}
+              </button>
+          ))}
+      </div>
+
+      {tool === 'PAINT' && (
+          <div className="flex gap-1 flex-wrap">
+              {PAINTABLE_TILES.map(type => (
+                  <button
+                      key={type}
+                      onClick={() => setPaintType(type)}
+                      className={`cursor-pointer flex items-center gap-1.5 px-2 py-1 rounded transition-all ${paintType === type ? 'bg-white/20 ring-1 ring-white' : 'hover:bg-white/10'}`}
+                  >
+                      <span className="w-3 h-3 rounded-sm border border-white/30" style={{ backgroundColor: TILE_PALETTES[palette][type] }} />
+                      <span className="text-[10px]">{type}</span>
+                  </button>
+              ))}
+          </div>
+      )}
+
+      <div className="flex justify-between items-center gap-6 pt-2 border-t border-slate-700">
+          <div className="flex items-center gap-2">
+              <span className="text-slate-400 uppercase tracking-widest">Par</span>
+              <button onClick={() => onChangePar(par - 1)} disabled={par <= MIN_PAR} className={`${button} bg-slate-800 hover:bg-slate-700`}>-</button>
+              <span className="text-lg font-mono w-4 text-center">{par}</span>
+              <button onClick={() => onChangePar(par + 1)} disabled={par >= MAX_PAR} className={`${button} bg-slate-800 hover:bg-slate-700`}>+</button>
+          </div>
+          <div className="flex gap-2">
+              <button onClick={onExit} className={`${button} bg-slate-700 hover:bg-slate-600`}>DISCARD</button>
+              <button onClick={onTestPlay} className={`${button} bg-emerald-500 hover:bg-emerald-400`}>▶ TEST PLAY</button>
+          </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditorPanel;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { ClubType, GameMode, GamePhase } from '../types';
+import { ShotOutcome } from '../services/physicsEngine';
+import { getScoreName, getPenaltyStrokes } from '../services/scoring';
+
+interface PhaseAnnouncerProps {
+  phase: GamePhase;
+  gameMode: GameMode;
+  playerName: string | null; // Only with more than one player
+  strokes: number; // Swings on this hole
+  penaltyStrokes: number;
+  par: number;
+  lives: number;
+  selectedClub: ClubType;
+  penaltyOutcome: ShotOutcome | null;
+}
+
+// What a screen reader says when the game moves on; null stays quiet
+const describePhase = ({ phase, gameMode, playerName, strokes, penaltyStrokes, par, lives, selectedClub, penaltyOutcome }: PhaseAnnouncerProps): string | null => {
+  const who = playerName ? `${playerName}: ` : '';
+  switch (phase) {
+    case GamePhase.AIMING:
+      return `${who}Stroke ${strokes + 1}, par ${par}, ${selectedClub.toLowerCase()} selected. Aim with the arrow keys and press Enter to swing.`;
+    case GamePhase.EXECUTING:
+      return 'Ball in flight.';
+    case GamePhase.HOLED:
+      return gameMode === 'STROKE_PLAY'
+        ? `${who}In the hole. ${getScoreName(strokes + penaltyStrokes, par)}.`
+        : `${who}In the hole.`;
+    case GamePhase.OUT_OF_BOUNDS: {
+      const where = penaltyOutcome === 'LAVA' ? 'In the lava' : penaltyOutcome === 'WATER' ? 'In the water' : 'Out of bounds';
+      if (gameMode === 'LIVES') return `${where}. ${lives} ${lives === 1 ? 'life' : 'lives'} left.`;
+      const penalty = penaltyOutcome ? getPenaltyStrokes(penaltyOutcome) : 0;
+      return `${where}. ${penalty} penalty stroke${penalty === 1 ? '' : 's'}.`;
+    }
+    case GamePhase.LEVEL_COMPLETE:
+      return 'Hole complete.';
+    case GamePhase.ROUND_COMPLETE:
+      return 'Round complete. The scorecard is on screen.';
+    case GamePhase.GAME_OVER:
+      return 'Game over.';
+    case GamePhase.REPLAY:
+      return 'Replay. Aiming is locked.';
+    case GamePhase.EDITING:
+      return 'Level editor.';
+    case GamePhase.IDLE:
+      return null;
+  }
+};
+
+// Visually hidden live region. Each new text is read once: every phase change, and a club change while aiming
+const PhaseAnnouncer: React.FC<PhaseAnnouncerProps> = (props) => (
+  <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+    {describePhase(props)}
+  </div>
+);
+
+export default PhaseAnnouncer;
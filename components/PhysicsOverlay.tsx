@@ -1,42 +1,138 @@
-import React, { useState } from 'react';
-import { Vector3, GamePhase, ClubType, TileType, AimData } from '../types';
-import { magnitude } from '../services/physicsEngine';
-import { PHYSICS_CONFIG, COLORS, PHYSICS_CONSTANTS } from '../constants';
+import React, { useState, useRef } from 'react';
+import { Vector3, GamePhase, ClubType, TileType, AimData, ContactPoint, GameMode, Round, Player, PlayerHoleState, MapType, Lie, SwingInput, Palette } from '../types';
+import { magnitude, ShotOutcome } from '../services/physicsEngine';
+import { decodeCourseCode, MAP_TYPES, MAP_SIZES, DEFAULT_MAP_SIZE, LevelOptions } from '../services/levelGenerator';
+import { getScoreName, formatToPar, getPenaltyStrokes } from '../services/scoring';
+import { isFinalHole, getRoundTotals } from '../services/roundService';
+import { MAX_PLAYERS } from '../services/multiplayer';
+import { Difficulty } from '../services/difficulty';
+import { getLieEffect, isClubAllowed } from '../services/shotModel';
+import { SwingMeter } from '../services/swingMeter';
+import Scorecard from './Scorecard';
+import SwingMeterBar from './SwingMeter';
+import PhaseAnnouncer from './PhaseAnnouncer';
+import { PHYSICS_CONFIG, TILE_PALETTES, PHYSICS_CONSTANTS } from '../constants';
 
 interface PhysicsOverlayProps {
   ballPosition: Vector3;
   ballVelocity: Vector3;
   phase: GamePhase;
-  strokes: number; // This is actually LIVES now
+  gameMode: GameMode;
+  onChangeGameMode: (mode: GameMode) => void;
+  lives: number;
+  strokes: number; // Swings on this hole
+  penaltyStrokes: number;
   par: number;
+  totalToPar: number; // Completed holes, stroke play
+  round: Round | null; // Stroke play only
+  players: Player[];
+  playerStates: PlayerHoleState[]; // Current hole, same order as players
+  activePlayer: number;
+  playerCount: number;
+  onChangePlayerCount: (count: number) => void;
+  roundLength: number;
+  onChangeRoundLength: (length: number) => void;
+  levelOptions: LevelOptions; // Map type and size for new holes; unset lets the seed pick
+  onChangeLevelOptions: (options: LevelOptions) => void;
   levelScore: number;
   highScore: number;
   selectedClub: ClubType;
   setSelectedClub: (c: ClubType) => void;
+  contactPoint: ContactPoint;
+  setContactPoint: (p: ContactPoint) => void;
+  wind: Vector3; // Current wind aloft
   currentTileType?: TileType;
+  lie: Lie;
   aimData: AimData | null;
+  swingInput: SwingInput;
+  onChangeSwingInput: (input: SwingInput) => void;
+  swingMeter: SwingMeter | null; // Set while a meter swing is lined up
+  palette: Palette;
+  onChangePalette: (palette: Palette) => void;
+  cameraFollow: boolean;
+  onToggleCameraFollow: () => void;
   isPaused: boolean;
   onTogglePause: () => void;
+  courseCode: string;
   onRestart: () => void;
   onNextLevel: () => void;
+  onPlayCode: (code: string) => void;
+  onOpenReplay: () => void;
+  onOpenEditor: () => void;
+  onExportCourse: () => void;
+  onImportCourse: (file: File) => void;
+  courseErrors: string[] | null; // Why the last course file was rejected
+  onDismissCourseErrors: () => void;
+  penaltyOutcome: ShotOutcome | null; // What the last penalty was for
+  difficulty: Difficulty | null; // Null for hand-built holes
 }
 
 const PhysicsOverlay: React.FC<PhysicsOverlayProps> = ({
   ballPosition,
   phase,
+  gameMode,
+  onChangeGameMode,
+  lives,
   strokes,
+  penaltyStrokes,
+  par,
+  totalToPar,
+  round,
+  players,
+  playerStates,
+  activePlayer,
+  playerCount,
+  onChangePlayerCount,
+  roundLength,
+  onChangeRoundLength,
+  levelOptions,
+  onChangeLevelOptions,
   levelScore,
   highScore,
   selectedClub,
   setSelectedClub,
+  contactPoint,
+  setContactPoint,
+  wind,
   currentTileType,
+  lie,
   aimData,
+  swingInput,
+  onChangeSwingInput,
+  swingMeter,
+  palette,
+  onChangePalette,
+  cameraFollow,
+  onToggleCameraFollow,
   isPaused,
   onTogglePause,
+  courseCode,
   onRestart,
-  onNextLevel
+  onNextLevel,
+  onPlayCode,
+  onOpenReplay,
+  onOpenEditor,
+  onExportCourse,
+  onImportCourse,
+  courseErrors,
+  onDismissCourseErrors,
+  penaltyOutcome,
+  difficulty
 }) => {
   const [isAimDataMinimised, setIsAimDataMinimised] = useState(false);
+  const [codeInput, setCodeInput] = useState('');
+  const [codeError, setCodeError] = useState(false);
+  const courseInputRef = useRef<HTMLInputElement>(null);
+
+  const submitCode = () => {
+      if (!decodeCourseCode(codeInput)) {
+          setCodeError(true);
+          return;
+      }
+      setCodeError(false);
+      setCodeInput('');
+      onPlayCode(codeInput);
+  };
 
   // Calculate Theoretical Values for the "Chain" display
   const gravity = PHYSICS_CONFIG.gravity;
@@ -51,15 +147,82 @@ const PhysicsOverlay: React.FC<PhysicsOverlayProps> = ({
   const hTheoretical = gravity > 0 ? (vY * vY) / (2 * gravity) : 0;
   const rTheoretical = vX * tTheoretical;
 
+  // Stroke play: the hole score counts penalties too
+  const holeScore = strokes + penaltyStrokes;
+  const isStrokePlay = gameMode === 'STROKE_PLAY';
+  const isMultiplayer = players.length > 1;
+
+  // Leaderboard: this hole's strokes plus the running total from finished holes
+  const leaderboard = players.map((player, i) => {
+      const state = playerStates[i];
+      const totals = round ? getRoundTotals(round, i).total : null;
+      return {
+          player,
+          index: i,
+          holeScore: state ? state.strokes + state.penalties : 0,
+          holed: state?.holed ?? false,
+          toPar: totals ? totals.strokes - totals.par : 0,
+      };
+  });
+
+  // Spin: convert to rpm for display, Magnus acceleration a = S · |ω| · |v| (perpendicular case)
+  const toRpm = (w: number) => w * 60 / (2 * Math.PI);
+  const spinMag = aimData ? magnitude(aimData.spin) : 0;
+  const magnusAccel = PHYSICS_CONFIG.magnusCoefficient * spinMag * vTotal;
+
+  // Wind relative to the shot line: headwind (+) / tailwind (-) and crosswind (+ pushes right)
+  const windSpeed = Math.hypot(wind.x, wind.z);
+
+  // What the lie does to the next swing, in words
+  const lieEffect = getLieEffect(lie);
+  const lieNotes = [
+      lieEffect.power < 1 && `${Math.round(lieEffect.power * 100)}% power`,
+      lieEffect.scatter > 0 && `+${lieEffect.scatter}° spread`,
+      lieEffect.maxPower !== undefined && `${Math.round(lieEffect.maxPower * 100)}% cap unless wedge`,
+      !isClubAllowed(ClubType.DRIVER, lie) && 'no driver',
+  ].filter((note): note is string => Boolean(note));
+  const aimH = aimData ? Math.hypot(aimData.velocity.x, aimData.velocity.z) : 0;
+  const aimDirX = aimH > 0 ? aimData!.velocity.x / aimH : 0;
+  const aimDirZ = aimH > 0 ? aimData!.velocity.z / aimH : 0;
+  const headwind = -(wind.x * aimDirX + wind.z * aimDirZ);
+  const crosswind = wind.x * -aimDirZ + wind.z * aimDirX;
+  const relAirSpeed = aimData
+      ? magnitude({ x: aimData.velocity.x - wind.x, y: aimData.velocity.y, z: aimData.velocity.z - wind.z })
+      : 0;
+  const dragAccel = PHYSICS_CONFIG.dragAir * relAirSpeed;
+
+  // Click on the ball face to choose the contact point
+  const handleContactClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      let x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
+      let y = -(((e.clientY - rect.top) / rect.height) * 2 - 1);
+      const len = Math.hypot(x, y);
+      if (len > 1) { x /= len; y /= len; }
+      // Snap back to centre when clicking near it
+      if (len < 0.15) { x = 0; y = 0; }
+      setContactPoint({ x, y });
+  };
+
   // Formatting helpers
   const val = (n: number) => <span className="text-white font-bold">{n.toFixed(1)}</span>;
   const unit = (s: string) => <span className="text-slate-500 text-[10px] ml-0.5">{s}</span>;
 
   return (
     <div className="absolute inset-0 pointer-events-none">
+      <PhaseAnnouncer
+          phase={phase}
+          gameMode={gameMode}
+          playerName={players.length > 1 ? players[activePlayer].name : null}
+          strokes={strokes}
+          penaltyStrokes={penaltyStrokes}
+          par={par}
+          lives={lives}
+          selectedClub={selectedClub}
+          penaltyOutcome={penaltyOutcome}
+      />
       
       {/* 0. BLOCKERS (Pause, Game Over, Level Complete) - EATS CLICKS */}
-      {(isPaused || phase === GamePhase.GAME_OVER || phase === GamePhase.LEVEL_COMPLETE) && (
+      {(isPaused || phase === GamePhase.GAME_OVER || phase === GamePhase.LEVEL_COMPLETE || phase === GamePhase.ROUND_COMPLETE) && (
          <div className="absolute inset-0 bg-black/40 backdrop-blur-sm z-40 pointer-events-auto flex items-center justify-center">
              {/* PAUSE */}
              {isPaused && (
@@ -92,16 +255,63 @@ const PhysicsOverlay: React.FC<PhysicsOverlayProps> = ({
              {/* LEVEL COMPLETE */}
              {phase === GamePhase.LEVEL_COMPLETE && (
                  <div className="bg-slate-900 text-white p-8 rounded-2xl border-2 border-emerald-500 shadow-2xl flex flex-col items-center gap-4 max-w-sm animate-bounce-short">
-                     <h2 className="text-3xl font-black text-emerald-400 tracking-tighter">LEVEL COMPLETE!</h2>
-                     <div className="text-center">
-                         <div className="text-slate-400 text-sm">Total Score</div>
-                         <div className="text-4xl font-mono font-bold text-white">{levelScore}</div>
-                     </div>
+                     <h2 className="text-3xl font-black text-emerald-400 tracking-tighter">
+                         {isStrokePlay && isMultiplayer ? 'HOLE COMPLETE!' : isStrokePlay ? getScoreName(holeScore, par).toUpperCase() + '!' : 'LEVEL COMPLETE!'}
+                     </h2>
+                     {isStrokePlay && isMultiplayer ? (
+                         <div className="flex flex-col gap-2 w-full font-mono">
+                             <div className="text-slate-400 text-sm text-center font-sans">Par {par}</div>
+                             {leaderboard.map(row => (
+                                 <div key={row.player.id} className="flex items-center gap-3 text-sm">
+                                     <div className="w-3 h-3 rounded-full border border-white/30" style={{ backgroundColor: row.player.color }} />
+                                     <span className="flex-1 font-bold font-sans">{row.player.name}</span>
+                                     <span className="text-slate-400 text-xs">{getScoreName(row.holeScore, par)}</span>
+                                     <span className="w-6 text-right font-bold text-white">{row.holeScore}</span>
+                                     <span className="w-8 text-right font-bold text-amber-400">{formatToPar(row.toPar)}</span>
+                                 </div>
+                             ))}
+                         </div>
+                     ) : isStrokePlay ? (
+                         <div className="flex gap-6 text-center">
+                             <div>
+                                 <div className="text-slate-400 text-sm">Strokes</div>
+                                 <div className="text-4xl font-mono font-bold text-white">{holeScore}</div>
+                                 {penaltyStrokes > 0 && <div className="text-[10px] text-red-400">incl. {penaltyStrokes} penalty</div>}
+                             </div>
+                             <div>
+                                 <div className="text-slate-400 text-sm">Par</div>
+                                 <div className="text-4xl font-mono font-bold text-slate-400">{par}</div>
+                             </div>
+                             <div>
+                                 <div className="text-slate-400 text-sm">Total</div>
+                                 <div className="text-4xl font-mono font-bold text-amber-400">{formatToPar(totalToPar)}</div>
+                             </div>
+                         </div>
+                     ) : (
+                         <div className="text-center">
+                             <div className="text-slate-400 text-sm">Total Score</div>
+                             <div className="text-4xl font-mono font-bold text-white">{levelScore}</div>
+                         </div>
+                     )}
                      <button 
                          onClick={onNextLevel}
                          className="mt-4 bg-emerald-500 text-white font-bold py-3 px-8 rounded-xl hover:bg-emerald-400 active:scale-95 transition-all shadow-lg w-full cursor-pointer"
                      >
-                         NEXT LEVEL →
+                         {round ? (isFinalHole(round) ? 'SCORECARD →' : 'NEXT HOLE →') : 'NEXT LEVEL →'}
+                     </button>
+                 </div>
+             )}
+
+             {/* ROUND COMPLETE */}
+             {phase === GamePhase.ROUND_COMPLETE && round && (
+                 <div className="bg-slate-900 text-white p-8 rounded-2xl border-2 border-amber-400 shadow-2xl flex flex-col items-center gap-4 max-w-full">
+                     <h2 className="text-3xl font-black text-amber-400 tracking-tighter">ROUND COMPLETE</h2>
+                     <Scorecard round={round} />
+                     <button 
+                         onClick={onRestart}
+                         className="mt-2 bg-white text-black font-bold py-3 px-8 rounded-xl hover:bg-slate-200 active:scale-95 transition-all shadow-lg w-full cursor-pointer"
+                     >
+                         NEW ROUND
                      </button>
                  </div>
              )}
@@ -115,17 +325,74 @@ const PhysicsOverlay: React.FC<PhysicsOverlayProps> = ({
         </div>
       </div>
 
+      {/* 1b. Leaderboard (hot-seat only) */}
+      {isStrokePlay && isMultiplayer && (
+          <div className="absolute top-20 left-6 pointer-events-auto z-50 bg-slate-900/80 backdrop-blur text-white p-3 rounded-lg border border-slate-700 w-56 shadow-xl">
+              <div className="text-xs text-slate-400 uppercase tracking-widest mb-2">Leaderboard</div>
+              <div className="flex flex-col gap-1 font-mono text-xs">
+                  {[...leaderboard].sort((a, b) => a.toPar - b.toPar || a.index - b.index).map(row => (
+                      <div
+                          key={row.player.id}
+                          className={`flex items-center gap-2 px-2 py-1 rounded ${row.index === activePlayer ? 'bg-white/15 ring-1 ring-white/40' : ''}`}
+                      >
+                          <div className="w-2.5 h-2.5 rounded-full border border-white/30" style={{ backgroundColor: row.player.color }} />
+                          <span className="flex-1 font-sans font-bold">{row.player.name}</span>
+                          <span className={row.holed ? 'text-emerald-400' : 'text-slate-400'}>{row.holed ? `✓ ${row.holeScore}` : row.holeScore}</span>
+                          <span className="w-8 text-right font-bold text-amber-400">{formatToPar(row.toPar)}</span>
+                      </div>
+                  ))}
+              </div>
+          </div>
+      )}
+
       {/* 2. HUD: LIVES & SCORE (Top Center) */}
       <div className="absolute top-6 left-1/2 transform -translate-x-1/2 pointer-events-auto z-50">
          <div className="bg-slate-900/90 text-white backdrop-blur-md px-6 py-3 rounded-2xl shadow-2xl border border-slate-700 flex gap-6 items-center">
-             <div className="flex flex-col items-center">
-                 <span className="text-[10px] text-slate-400 font-bold tracking-widest uppercase">Lives</span>
-                 <div className="flex gap-1 mt-1">
-                     {[...Array(5)].map((_, i) => (
-                         <div key={i} className={`w-3 h-3 rounded-full ${i < strokes ? 'bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.6)]' : 'bg-slate-700'}`} />
-                     ))}
+             {isStrokePlay ? (
+                 <>
+                     {isMultiplayer && (
+                         <div className="flex flex-col items-center">
+                             <span className="text-[10px] text-slate-400 font-bold tracking-widest uppercase">Up</span>
+                             <span className="text-sm font-bold mt-1.5" style={{ color: players[activePlayer]?.color }}>
+                                 {players[activePlayer]?.name}
+                             </span>
+                         </div>
+                     )}
+                     {round && (
+                         <div className="flex flex-col items-center">
+                             <span className="text-[10px] text-slate-400 font-bold tracking-widest uppercase">Hole</span>
+                             <span className="text-2xl font-mono font-bold text-white">
+                                 {round.currentHole + 1}<span className="text-sm text-slate-500">/{round.course.holes.length}</span>
+                             </span>
+                         </div>
+                     )}
+                     <div className="flex flex-col items-center min-w-[60px]">
+                         <span className="text-[10px] text-slate-400 font-bold tracking-widest uppercase">Stroke</span>
+                         <span className="text-2xl font-mono font-bold text-white">
+                             {holeScore}
+                             {penaltyStrokes > 0 && <span className="text-xs text-red-400 ml-1">({penaltyStrokes} pen)</span>}
+                         </span>
+                     </div>
+                     <div className="flex flex-col items-center">
+                         <span className="text-[10px] text-slate-400 font-bold tracking-widest uppercase">Par</span>
+                         <span className="text-2xl font-mono font-bold text-slate-300">{par}</span>
+                     </div>
+                     <div className="w-px h-8 bg-slate-700"></div>
+                     <div className="flex flex-col items-center">
+                         <span className="text-[10px] text-slate-400 font-bold tracking-widest uppercase">To Par</span>
+                         <span className="text-2xl font-mono font-bold text-amber-400">{formatToPar(totalToPar)}</span>
+                     </div>
+                 </>
+             ) : (
+                 <div className="flex flex-col items-center">
+                     <span className="text-[10px] text-slate-400 font-bold tracking-widest uppercase">Lives</span>
+                     <div className="flex gap-1 mt-1">
+                         {[...Array(5)].map((_, i) => (
+                             <div key={i} className={`w-3 h-3 rounded-full ${i < lives ? 'bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.6)]' : 'bg-slate-700'}`} />
+                         ))}
+                     </div>
                  </div>
-             </div>
+             )}
              <div className="w-px h-8 bg-slate-700"></div>
              <div className="flex flex-col items-center min-w-[60px]">
                  <span className="text-[10px] text-slate-400 font-bold tracking-widest uppercase">Levels</span>
@@ -149,19 +416,217 @@ const PhysicsOverlay: React.FC<PhysicsOverlayProps> = ({
             >
                 ↻ RESTART
             </button>
+            <button
+                onClick={onOpenReplay}
+                disabled={phase !== GamePhase.AIMING}
+                className="cursor-pointer bg-slate-800 text-white px-4 py-2 rounded-lg font-bold shadow hover:bg-slate-700 hover:scale-105 active:scale-95 transition-all text-sm border border-slate-600 disabled:opacity-40 disabled:cursor-default disabled:hover:scale-100"
+            >
+                ⏵ REPLAY
+            </button>
+            <button
+                onClick={onOpenEditor}
+                disabled={phase !== GamePhase.AIMING}
+                className="cursor-pointer bg-slate-800 text-white px-4 py-2 rounded-lg font-bold shadow hover:bg-slate-700 hover:scale-105 active:scale-95 transition-all text-sm border border-slate-600 disabled:opacity-40 disabled:cursor-default disabled:hover:scale-100"
+            >
+                ✎ EDIT
+            </button>
+          </div>
+
+          <div className="flex bg-slate-900/80 backdrop-blur rounded-lg p-1 border border-slate-700 text-[10px] font-bold">
+              {(['STROKE_PLAY', 'LIVES'] as GameMode[]).map(mode => (
+                  <button
+                      key={mode}
+                      onClick={() => mode !== gameMode && onChangeGameMode(mode)}
+                      className={`cursor-pointer px-3 py-1 rounded transition-all ${gameMode === mode ? 'bg-white text-black' : 'text-slate-400 hover:text-white'}`}
+                  >
+                      {mode === 'STROKE_PLAY' ? 'STROKE PLAY' : 'LIVES'}
+                  </button>
+              ))}
+          </div>
+
+          {isStrokePlay && (
+              <div className="flex bg-slate-900/80 backdrop-blur rounded-lg p-1 border border-slate-700 text-[10px] font-bold">
+                  {[9, 18].map(length => (
+                      <button
+                          key={length}
+                          onClick={() => length !== roundLength && onChangeRoundLength(length)}
+                          className={`cursor-pointer px-3 py-1 rounded transition-all ${roundLength === length ? 'bg-white text-black' : 'text-slate-400 hover:text-white'}`}
+                      >
+                          {length} HOLES
+                      </button>
+                  ))}
+              </div>
+          )}
+
+          {isStrokePlay && (
+              <div className="flex bg-slate-900/80 backdrop-blur rounded-lg p-1 border border-slate-700 text-[10px] font-bold">
+                  {Array.from({ length: MAX_PLAYERS }, (_, i) => i + 1).map(count => (
+                      <button
+                          key={count}
+                          onClick={() => count !== playerCount && onChangePlayerCount(count)}
+                          className={`cursor-pointer px-3 py-1 rounded transition-all ${playerCount === count ? 'bg-white text-black' : 'text-slate-400 hover:text-white'}`}
+                      >
+                          {count}P
+                      </button>
+                  ))}
+              </div>
+          )}
+
+          <div className="flex bg-slate-900/80 backdrop-blur rounded-lg p-1 border border-slate-700 text-[10px] font-bold">
+              {(['DRAG', 'METER'] as SwingInput[]).map(input => (
+                  <button
+                      key={input}
+                      onClick={() => onChangeSwingInput(input)}
+                      className={`cursor-pointer px-3 py-1 rounded transition-all ${swingInput === input ? 'bg-white text-black' : 'text-slate-400 hover:text-white'}`}
+                      title={input === 'DRAG' ? 'Shoot on release' : 'Drag to aim, then a three-click swing meter'}
+                  >
+                      {input === 'DRAG' ? 'DRAG SWING' : 'SWING METER'}
+                  </button>
+              ))}
           </div>
 
+          <div className="flex bg-slate-900/80 backdrop-blur rounded-lg p-1 border border-slate-700 text-[10px] font-bold">
+              {(['STANDARD', 'COLOR_BLIND'] as Palette[]).map(option => (
+                  <button
+                      key={option}
+                      onClick={() => onChangePalette(option)}
+                      aria-pressed={palette === option}
+                      className={`cursor-pointer px-3 py-1 rounded transition-all ${palette === option ? 'bg-white text-black' : 'text-slate-400 hover:text-white'}`}
+                  >
+                      {option === 'STANDARD' ? 'STANDARD COLOURS' : 'COLOUR-BLIND'}
+                  </button>
+              ))}
+          </div>
+
+          <button
+              onClick={onToggleCameraFollow}
+              aria-pressed={cameraFollow}
+              className="cursor-pointer bg-slate-900/80 backdrop-blur text-[10px] font-bold rounded-lg px-3 py-1.5 border border-slate-700 text-white hover:bg-slate-800 transition-all"
+              title="Frame the hole before each shot and follow the ball in flight"
+          >
+              CAMERA: {cameraFollow ? 'AUTO' : 'MANUAL'}
+          </button>
+
+          <select
+              value={levelOptions.mapType ?? ''}
+              onChange={(e) => onChangeLevelOptions({ ...levelOptions, mapType: (e.target.value || undefined) as MapType | undefined })}
+              className="cursor-pointer bg-slate-900/80 backdrop-blur text-white text-[10px] font-bold rounded-lg px-2 py-1.5 border border-slate-700 outline-none"
+              title="Map type for new holes"
+          >
+              <option value="">ANY MAP</option>
+              {MAP_TYPES.map(type => (
+                  <option key={type} value={type}>{type.replace('_', ' ')}</option>
+              ))}
+          </select>
+
+          <select
+              value={levelOptions.size ?? DEFAULT_MAP_SIZE}
+              onChange={(e) => onChangeLevelOptions({ ...levelOptions, size: parseInt(e.target.value, 10) })}
+              className="cursor-pointer bg-slate-900/80 backdrop-blur text-white text-[10px] font-bold rounded-lg px-2 py-1.5 border border-slate-700 outline-none"
+              title="Map size for new holes"
+          >
+              {MAP_SIZES.map(size => (
+                  <option key={size} value={size}>{size}×{size}</option>
+              ))}
+          </select>
+
           <div className="bg-slate-900/80 backdrop-blur text-white p-3 rounded-lg border border-slate-700 w-48 shadow-xl transition-all">
               <div className="text-xs text-slate-400 uppercase tracking-widest mb-1">Terrain Physics</div>
               <div className="flex items-center gap-3">
                   <div 
                     className="w-4 h-4 rounded-full border border-white/20 shadow-inner" 
-                    style={{ backgroundColor: COLORS[currentTileType || TileType.FAIRWAY] }}
+                    style={{ backgroundColor: TILE_PALETTES[palette][currentTileType || TileType.FAIRWAY] }}
                   />
                   <div className="flex flex-col">
                       <span className="font-bold text-sm">{currentTileType || 'AIR'}</span>
                   </div>
               </div>
+              <div className="flex justify-between text-xs mt-2 pt-2 border-t border-slate-700">
+                  <span className="text-slate-400">Lie</span>
+                  <span className="font-mono font-bold">{lie}</span>
+              </div>
+              {lieNotes.length > 0 && (
+                  <div className="text-[10px] text-amber-300 mt-0.5 leading-tight">{lieNotes.join(' · ')}</div>
+              )}
+              <div className="flex justify-between text-xs mt-1">
+                  <span className="text-slate-400">Wind</span>
+                  <span className="font-mono font-bold">{windSpeed.toFixed(1)} m/s</span>
+              </div>
+              {difficulty && (
+                  <div
+                      className="flex justify-between text-xs mt-1"
+                      title={`Green radius ${difficulty.greenRadius.toFixed(1)} · fairway width ${difficulty.fairwayWidth * 2 + 1} · hazards ×${difficulty.hazards.toFixed(1)}`}
+                  >
+                      <span className="text-slate-400">Difficulty</span>
+                      <span className="font-mono font-bold">{difficulty.label} {difficulty.rating}/10</span>
+                  </div>
+              )}
+          </div>
+
+          {/* Course Code: share the current hole or paste a teammate's */}
+          <div className="bg-slate-900/80 backdrop-blur text-white p-3 rounded-lg border border-slate-700 w-48 shadow-xl">
+              <div className="text-xs text-slate-400 uppercase tracking-widest mb-1">Course Code</div>
+              <button
+                  onClick={() => navigator.clipboard?.writeText(courseCode)}
+                  className="cursor-pointer font-mono font-bold text-amber-400 hover:text-amber-300 transition-colors"
+                  title="Copy to clipboard"
+              >
+                  {courseCode}
+              </button>
+              <div className="flex gap-1 mt-2">
+                  <input
+                      value={codeInput}
+                      onChange={(e) => { setCodeInput(e.target.value); setCodeError(false); }}
+                      onKeyDown={(e) => { if (e.key === 'Enter') submitCode(); }}
+                      placeholder="Paste code"
+                      className={`w-full bg-slate-800 text-white text-xs font-mono px-2 py-1 rounded border ${codeError ? 'border-red-500' : 'border-slate-600'} outline-none`}
+                  />
+                  <button
+                      onClick={submitCode}
+                      className="cursor-pointer bg-white/90 text-black text-xs font-bold px-2 rounded hover:bg-white active:scale-95 transition-all"
+                  >
+                      PLAY
+                  </button>
+              </div>
+              {codeError && <div className="text-[10px] text-red-400 mt-1">Invalid course code</div>}
+              <div className="flex gap-1 mt-2 pt-2 border-t border-slate-700 text-[10px] font-bold">
+                  <button
+                      onClick={onExportCourse}
+                      className="cursor-pointer flex-1 bg-slate-700 py-1 rounded hover:bg-slate-600 active:scale-95 transition-all"
+                      title="Save this hole as a course file"
+                  >
+                      SAVE FILE
+                  </button>
+                  <button
+                      onClick={() => courseInputRef.current?.click()}
+                      className="cursor-pointer flex-1 bg-slate-700 py-1 rounded hover:bg-slate-600 active:scale-95 transition-all"
+                      title="Open a course file (or drop one on the window)"
+                  >
+                      OPEN FILE
+                  </button>
+                  <input
+                      ref={courseInputRef}
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = ''; // Allow re-opening the same file after fixing it
+                          if (file) onImportCourse(file);
+                      }}
+                  />
+              </div>
+              {courseErrors && (
+                  <div className="mt-2 bg-red-950/80 border border-red-500/50 rounded p-2 text-[10px] text-red-300">
+                      <div className="flex justify-between font-bold text-red-400 mb-1">
+                          <span>Course file rejected</span>
+                          <button onClick={onDismissCourseErrors} className="cursor-pointer hover:text-white">✕</button>
+                      </div>
+                      <ul className="list-disc pl-3 space-y-0.5">
+                          {courseErrors.map((error, i) => <li key={i}>{error}</li>)}
+                      </ul>
+                  </div>
+              )}
           </div>
       </div>
 
@@ -189,10 +654,11 @@ const PhysicsOverlay: React.FC<PhysicsOverlayProps> = ({
                       <div>Given:</div>
                       <div className="text-right">
                           P = {val(aimData.powerRatio * 100)}{unit('%')} <br/>
+                          {aimData.strikeRatio !== aimData.powerRatio && <>P_lie = {val(aimData.strikeRatio * 100)}{unit('%')} ({aimData.lie}) <br/></>}
                           F_max = {val(aimData.maxForce)}{unit('N')}
                       </div>
                   </div>
-                  <div className="text-slate-300 mb-1">Formula: F = P × F_max</div>
+                  <div className="text-slate-300 mb-1">Formula: F = {aimData.strikeRatio !== aimData.powerRatio ? 'P_lie' : 'P'} × F_max</div>
                   <div className="text-right pt-1">
                       <span className="text-emerald-400 font-bold text-sm">{aimData.force.toFixed(0)} N</span>
                   </div>
@@ -227,6 +693,41 @@ const PhysicsOverlay: React.FC<PhysicsOverlayProps> = ({
                    </div>
                </div>
 
+               {/* STEP 3b: SPIN */}
+               <div className="bg-slate-800/50 p-2 rounded border border-slate-700">
+                   <div className="text-emerald-400 font-bold text-[10px] mb-1">SPIN (ω) & MAGNUS</div>
+                   <div className="grid grid-cols-2 gap-x-2 text-[10px] text-slate-400 mb-1 border-b border-slate-700 pb-1">
+                       <div>Given:</div>
+                       <div className="text-right">
+                           back = {val(toRpm(aimData.backspin))}{unit('rpm')} <br/>
+                           side = {val(toRpm(aimData.sidespin))}{unit('rpm')} <br/>
+                           S = {val(PHYSICS_CONFIG.magnusCoefficient * 1000)}{unit('×10⁻³')}
+                       </div>
+                   </div>
+                   <div className="text-slate-300 mb-1">Formula: F_M = S · (ω × v)</div>
+                   <div className="text-right pt-1">
+                       <span className="text-emerald-400 font-bold text-sm">{magnusAccel.toFixed(1)} m/s²</span>
+                   </div>
+               </div>
+
+               {/* STEP 3c: WIND */}
+               <div className="bg-slate-800/50 p-2 rounded border border-slate-700">
+                   <div className="text-emerald-400 font-bold text-[10px] mb-1">WIND & AIR DRAG</div>
+                   <div className="grid grid-cols-2 gap-x-2 text-[10px] text-slate-400 mb-1 border-b border-slate-700 pb-1">
+                       <div>Given:</div>
+                       <div className="text-right">
+                           |w| = {val(windSpeed)}{unit('m/s')} <br/>
+                           {headwind >= 0 ? 'head' : 'tail'} = {val(Math.abs(headwind))}{unit('m/s')} <br/>
+                           cross = {val(crosswind)}{unit('m/s')} <br/>
+                           k = {val(PHYSICS_CONFIG.dragAir)}{unit('1/s')}
+                       </div>
+                   </div>
+                   <div className="text-slate-300 mb-1">Formula: a_d = -k · (v - w)</div>
+                   <div className="text-right pt-1">
+                       <span className="text-emerald-400 font-bold text-sm">{dragAccel.toFixed(1)} m/s²</span>
+                   </div>
+               </div>
+
                {/* STEP 4: TIME */}
                <div className="bg-slate-800/50 p-2 rounded border border-slate-700">
                    <div className="text-emerald-400 font-bold text-[10px] mb-1">STEP 4: FLIGHT TIME (T)</div>
@@ -281,11 +782,21 @@ const PhysicsOverlay: React.FC<PhysicsOverlayProps> = ({
          </div>
       )}
 
+      {/* Swing Meter, beside the calculations it feeds */}
+      {swingMeter && (
+         <div className="absolute top-24 left-[22rem] pointer-events-none z-30">
+             <SwingMeterBar meter={swingMeter} target={aimData?.powerRatio ?? 0} isPaused={isPaused} />
+         </div>
+      )}
+
       {/* Center Feedback (Out of Bounds) */}
       <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 pointer-events-none z-50">
         {!isPaused && phase === GamePhase.OUT_OF_BOUNDS && (
-             <div className="bg-red-500 text-white px-8 py-4 rounded-2xl shadow-2xl text-2xl font-bold animate-pulse">
-             OUT OF BOUNDS
+             <div className="bg-red-500 text-white px-8 py-4 rounded-2xl shadow-2xl text-2xl font-bold animate-pulse text-center">
+             {penaltyOutcome === 'LAVA' ? 'LAVA' : 'OUT OF BOUNDS'}
+             {isStrokePlay && penaltyOutcome && (
+                 <div className="text-sm font-medium">+{getPenaltyStrokes(penaltyOutcome)} penalty stroke{getPenaltyStrokes(penaltyOutcome) > 1 ? 's' : ''}</div>
+             )}
          </div>
         )}
       </div>
@@ -298,7 +809,9 @@ const PhysicsOverlay: React.FC<PhysicsOverlayProps> = ({
                     <button
                         key={club}
                         onClick={() => setSelectedClub(club)}
-                        className={`px-6 py-2 rounded-lg text-xs md:text-sm font-bold transition-all cursor-pointer ${
+                        disabled={!isClubAllowed(club, lie)}
+                        title={isClubAllowed(club, lie) ? undefined : 'Driver only from the tee or fairway'}
+                        className={`px-6 py-2 rounded-lg text-xs md:text-sm font-bold transition-all cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed disabled:hover:bg-transparent disabled:hover:scale-100 ${
                             selectedClub === club 
                             ? 'bg-slate-800 text-white shadow-md scale-105' 
                             : 'text-slate-600 hover:bg-slate-100 hover:scale-105'
@@ -310,9 +823,31 @@ const PhysicsOverlay: React.FC<PhysicsOverlayProps> = ({
             </div>
          )}
          
+         {phase === GamePhase.AIMING && !isPaused && selectedClub !== ClubType.PUTTER && (
+            <div className="flex items-center gap-3 bg-white/90 backdrop-blur rounded-xl px-3 py-2 shadow-lg border border-slate-200">
+                <div
+                    onClick={handleContactClick}
+                    className="relative w-12 h-12 rounded-full bg-white border-2 border-slate-300 shadow-inner cursor-crosshair"
+                    title="Contact point: low = backspin, high = topspin, left = draw, right = fade"
+                >
+                    <div className="absolute left-1/2 top-0 bottom-0 w-px bg-slate-200" />
+                    <div className="absolute top-1/2 left-0 right-0 h-px bg-slate-200" />
+                    <div
+                        className="absolute w-2.5 h-2.5 rounded-full bg-red-500 -translate-x-1/2 -translate-y-1/2"
+                        style={{ left: `${50 + contactPoint.x * 50}%`, top: `${50 - contactPoint.y * 50}%` }}
+                    />
+                </div>
+                <div className="flex flex-col text-[10px] text-slate-600 font-medium leading-tight">
+                    <span className="font-bold text-slate-900 text-xs">Strike</span>
+                    <span>{contactPoint.y < -0.1 ? 'Low (backspin)' : contactPoint.y > 0.1 ? 'High (topspin)' : 'Centre'}</span>
+                    <span>{contactPoint.x < -0.1 ? 'Draw' : contactPoint.x > 0.1 ? 'Fade' : 'Straight'}</span>
+                </div>
+            </div>
+         )}
+
          {phase === GamePhase.AIMING && !isPaused && (
              <div className="bg-white/50 backdrop-blur px-4 py-1 rounded-full shadow text-slate-600 text-xs font-medium animate-pulse">
-                 Selected: <span className="font-bold text-slate-900">{selectedClub}</span> • Drag ball to aim
+                 Selected: <span className="font-bold text-slate-900">{selectedClub}</span> • {swingInput === 'METER' ? 'Drag ball to aim, then swing' : 'Drag ball to aim'}
              </div>
          )}
       </div>
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Level, Player, Vector3 } from '../types';
+import { ShotRecord, getRecordDuration, getFrameAt, createReplayFile, serializeReplay, parseReplay } from '../services/replay';
+import { downloadJson } from '../services/fileIO';
+
+interface ReplayViewerProps {
+  level: Level;
+  shots: ShotRecord[]; // This hole, in the order they were played
+  players: Player[];
+  onView: (record: ShotRecord, position: Vector3, time: number) => void; // time: s into the shot
+  onClose: () => void;
+}
+
+const SPEEDS = [1, 0.5, 0.25];
+const STEP_TIME = 1 / 60; // One display frame
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ level, shots, players, onView, onClose }) => {
+  const [imported, setImported] = useState<ShotRecord[] | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [shotIndex, setShotIndex] = useState(Math.max(0, shots.length - 1));
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const list = imported ?? shots;
+  const record = list[shotIndex];
+  const duration = record ? getRecordDuration(record) : 0;
+  const frame = record ? getFrameAt(record, time) : 0;
+
+  const selectShot = (index: number) => {
+      setShotIndex(index);
+      setTime(0);
+      setIsPlaying(false);
+  };
+
+  // Push the current frame to the canvas
+  useEffect(() => {
+      if (record) onView(record, record.positions[frame], frame * record.dt);
+  }, [record, frame, onView]);
+
+  // Playback loop, real time scaled by the chosen speed
+  useEffect(() => {
+      if (!isPlaying) return;
+      let last: number | undefined;
+      let raf = requestAnimationFrame(function tick(now) {
+          const dt = last === undefined ? 0 : (now - last) / 1000;
+          last = now;
+          setTime(t => Math.min(duration, t + dt * speed));
+          raf = requestAnimationFrame(tick);
+      });
+      return () => cancelAnimationFrame(raf);
+  }, [isPlaying, speed, duration]);
+
+  useEffect(() => {
+      if (isPlaying && time >= duration) setIsPlaying(false);
+  }, [isPlaying, time, duration]);
+
+  const togglePlay = () => {
+      if (!isPlaying && time >= duration) setTime(0);
+      setIsPlaying(p => !p);
+  };
+
+  const step = (direction: number) => {
+      setIsPlaying(false);
+      setTime(t => Math.max(0, Math.min(duration, t + direction * STEP_TIME)));
+  };
+
+  const handleExport = () => {
+      downloadJson(`replay-${level.code}.json`, serializeReplay(createReplayFile(level, list)));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow picking the same file again
+      if (!file) return;
+      const parsed = parseReplay(await file.text(), level);
+      if ('error' in parsed) {
+          setImportError(parsed.error);
+          return;
+      }
+      setImportError(null);
+      setImported(parsed.replay.shots);
+      selectShot(0);
+  };
+
+  const playerName = (id: number) => players.find(p => p.id === id)?.name ?? `Player ${id + 1}`;
+  const button = 'cursor-pointer px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 active:scale-95 transition-all disabled:opacity-40 disabled:cursor-default';
+
+  return (
+    <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 pointer-events-auto z-50 bg-slate-900/95 backdrop-blur text-white p-4 rounded-xl border border-slate-700 shadow-2xl w-[32rem] max-w-[95vw] font-mono text-xs">
+      <div className="flex justify-between items-center mb-3">
+          <span className="text-slate-400 uppercase tracking-widest font-sans font-bold">
+              Replay{imported && <span className="text-amber-400 ml-2">imported</span>}
+          </span>
+          <div className="flex gap-2">
+              {imported && <button onClick={() => { setImported(null); selectShot(Math.max(0, shots.length - 1)); }} className={button}>THIS HOLE</button>}
+              <button onClick={handleExport} disabled={list.length === 0} className={button}>EXPORT</button>
+              <button onClick={() => fileInputRef.current?.click()} className={button}>IMPORT</button>
+              <button onClick={onClose} className={button}>✕</button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+      </div>
+
+      {importError && <div className="text-red-400 mb-2">{importError}</div>}
+
+      {list.length === 0 ? (
+          <div className="text-slate-500 text-center py-4">No shots played on this hole yet</div>
+      ) : (
+          <>
+              <div className="flex gap-1 flex-wrap mb-3">
+                  {list.map((shot, i) => (
+                      <button
+                          key={i}
+                          onClick={() => selectShot(i)}
+                          className={`cursor-pointer px-2 py-1 rounded transition-all ${i === shotIndex ? 'bg-white text-black' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+                      >
+                          {i + 1}
+                      </button>
+                  ))}
+              </div>
+
+              {record && (
+                  <div className="flex justify-between text-slate-400 mb-2">
+                      <span>{playerName(record.playerId)} · stroke {record.stroke} · {record.club}</span>
+                      <span>{Math.round(record.aim.powerRatio * 100)}% · {record.aim.launchAngle.toFixed(1)}° · {record.outcome}</span>
+                  </div>
+              )}
+
+              <input
+                  type="range"
+                  min={0}
+                  max={duration}
+                  step={record?.dt || STEP_TIME}
+                  value={time}
+                  onChange={e => { setIsPlaying(false); setTime(parseFloat(e.target.value)); }}
+                  className="w-full cursor-pointer accent-emerald-400"
+              />
+
+              <div className="flex justify-between items-center mt-2">
+                  <div className="flex gap-1">
+                      <button onClick={() => step(-1)} className={button} title="Back one frame">◀︎|</button>
+                      <button onClick={togglePlay} className={`${button} w-16`}>{isPlaying ? 'PAUSE' : 'PLAY'}</button>
+                      <button onClick={() => step(1)} className={button} title="Forward one frame">|▶︎</button>
+                  </div>
+                  <div className="flex gap-1">
+                      {SPEEDS.map(s => (
+                          <button
+                              key={s}
+                              onClick={() => setSpeed(s)}
+                              className={`cursor-pointer px-2 py-1 rounded transition-all ${speed === s ? 'bg-white text-black' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+                          >
+                              {s}×
+                          </button>
+                      ))}
+                  </div>
+                  <span className="text-slate-400">{time.toFixed(2)} / {duration.toFixed(2)} s</span>
+              </div>
+          </>
+      )}
+    </div>
+  );
+};
+
+export default ReplayViewer;
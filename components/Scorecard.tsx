@@ -0,0 +1,90 @@
+import React from 'react';
+import { Round } from '../types';
+import { FRONT_NINE, getRoundTotals, getCoursePar } from '../services/roundService';
+import { formatToPar } from '../services/scoring';
+
+interface ScorecardProps {
+  round: Round;
+}
+
+// Traditional card colouring: under par green, over par red
+const scoreClass = (strokes: number, par: number) => {
+  const diff = strokes - par;
+  if (diff <= -2) return 'bg-amber-400 text-black rounded-full';
+  if (diff === -1) return 'bg-emerald-500 text-white rounded-full';
+  if (diff === 0) return 'text-white';
+  if (diff === 1) return 'bg-red-500/60 text-white rounded';
+  return 'bg-red-700 text-white rounded';
+};
+
+const Scorecard: React.FC<ScorecardProps> = ({ round }) => {
+  const holes = round.course.holes;
+  const hasBackNine = holes.length > FRONT_NINE;
+  const totals = round.players.map((_, p) => getRoundTotals(round, p));
+
+  // One table per nine, the back nine only exists for 18-hole rounds
+  const nines = hasBackNine
+    ? [{ label: 'OUT', from: 0, to: FRONT_NINE, key: 'front' as const }, { label: 'IN', from: FRONT_NINE, to: holes.length, key: 'back' as const }]
+    : [{ label: 'OUT', from: 0, to: holes.length, key: 'front' as const }];
+
+  return (
+    <div className="flex flex-col gap-3 font-mono text-xs">
+      {nines.map(nine => {
+        const indices = Array.from({ length: nine.to - nine.from }, (_, i) => nine.from + i);
+        const ninePar = indices.reduce((sum, i) => sum + holes[i].par, 0);
+        return (
+          <table key={nine.label} className="border-collapse text-center">
+            <tbody>
+              <tr className="text-slate-400 text-[10px]">
+                <td className="text-left pr-3 font-bold">HOLE</td>
+                {indices.map(i => <td key={i} className="w-7">{i + 1}</td>)}
+                <td className="w-10 font-bold">{nine.label}</td>
+              </tr>
+              <tr className="text-slate-300 border-t border-slate-700">
+                <td className="text-left pr-3 font-bold text-[10px] text-slate-400">PAR</td>
+                {indices.map(i => <td key={i}>{holes[i].par}</td>)}
+                <td className="font-bold">{ninePar}</td>
+              </tr>
+              {round.players.map((player, p) => (
+                <tr key={player.id} className="border-t border-slate-700">
+                  <td className="text-left pr-3 font-bold text-[10px] whitespace-nowrap" style={{ color: player.color }}>
+                    {player.name.toUpperCase()}
+                  </td>
+                  {indices.map(i => {
+                    const score = round.scores[p][i];
+                    if (!score) return <td key={i} className="text-slate-600">-</td>;
+                    const total = score.strokes + score.penalties;
+                    return (
+                      <td key={i} className="py-1">
+                        <span className={`inline-block w-6 h-6 leading-6 font-bold ${scoreClass(total, holes[i].par)}`}>{total}</span>
+                      </td>
+                    );
+                  })}
+                  <td className="font-bold text-white">{totals[p][nine.key].played > 0 ? totals[p][nine.key].strokes : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+      })}
+
+      <div className="border-t border-slate-700 pt-3 flex flex-col gap-1">
+        <div className="flex justify-between text-[10px] text-slate-400 uppercase tracking-widest">
+          <span>Total</span>
+          <span>Par {getCoursePar(round.course)}</span>
+        </div>
+        {round.players.map((player, p) => (
+          <div key={player.id} className="flex justify-between items-end">
+            <span className="font-bold" style={{ color: player.color }}>{player.name}</span>
+            <span>
+              <span className="text-2xl font-bold text-white mr-3">{totals[p].total.strokes}</span>
+              <span className="text-2xl font-bold text-amber-400">{formatToPar(totals[p].total.strokes - totals[p].total.par)}</span>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Scorecard;
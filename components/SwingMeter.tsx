@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { SwingMeter, getMeterPosition, METER_OVERRUN, SWEET_SPOT } from '../services/swingMeter';
+
+interface SwingMeterBarProps {
+  meter: SwingMeter;
+  target: number; // Power the aiming drag asked for, 0-1
+  isPaused: boolean; // Holds the marker where it is
+}
+
+const CAPTIONS: Record<SwingMeter['stage'], string> = {
+  READY: 'Click or Space to swing',
+  POWER: 'Click to set power',
+  ACCURACY: 'Click on the mark: early hooks, late slices',
+};
+
+// Marker position (-overrun..1) as a percentage along the bar
+const toPercent = (position: number) => ((position + METER_OVERRUN) / (1 + METER_OVERRUN)) * 100;
+
+const SwingMeterBar: React.FC<SwingMeterBarProps> = ({ meter, target, isPaused }) => {
+  const [now, setNow] = useState(() => performance.now());
+
+  // The marker moves on its own between clicks
+  useEffect(() => {
+    if (meter.stage === 'READY' || isPaused) return;
+    let animId: number;
+    const tick = () => {
+      setNow(performance.now());
+      animId = requestAnimationFrame(tick);
+    };
+    animId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animId);
+  }, [meter, isPaused]);
+
+  const position = getMeterPosition(meter, now);
+  const filled = meter.stage === 'ACCURACY' ? meter.power : Math.max(0, position);
+
+  return (
+    <div className="bg-slate-900 text-slate-100 rounded-xl font-mono text-xs w-56 shadow-2xl border border-slate-700 p-3">
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-bold text-sm tracking-wider">SWING</span>
+        {meter.stage !== 'READY' && <span className="text-[10px] text-slate-400">{Math.round(filled * 100)}%</span>}
+      </div>
+      <div className="relative h-5 bg-slate-800 rounded border border-slate-600 overflow-hidden">
+        {/* Power filled so far */}
+        <div
+          className="absolute inset-y-0 bg-emerald-500/60"
+          style={{ left: `${toPercent(0)}%`, width: `${toPercent(filled) - toPercent(0)}%` }}
+        />
+        {/* The mark, wide as the sweet spot */}
+        <div
+          className="absolute inset-y-0 bg-white/80"
+          style={{ left: `${toPercent(-SWEET_SPOT)}%`, width: `${toPercent(SWEET_SPOT) - toPercent(-SWEET_SPOT)}%` }}
+        />
+        {/* What the drag asked for */}
+        <div className="absolute inset-y-0 w-px bg-amber-400" style={{ left: `${toPercent(target)}%` }} />
+        {/* Marker */}
+        {meter.stage !== 'READY' && (
+          <div className="absolute -inset-y-px w-1 bg-red-500 -translate-x-1/2" style={{ left: `${toPercent(position)}%` }} />
+        )}
+      </div>
+      <div className="flex justify-between text-[9px] text-slate-500 mt-0.5">
+        <span>LATE</span>
+        <span>FULL</span>
+      </div>
+      <div className="text-[10px] text-slate-300 mt-1">{CAPTIONS[meter.stage]} · Esc cancels</div>
+    </div>
+  );
+};
+
+export default SwingMeterBar;
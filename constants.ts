@@ -1,5 +1,5 @@
 
-import { PhysicsConfig, TileType } from './types';
+import { Palette, PhysicsConfig, TileType } from './types';
 
 export const PHYSICS_CONFIG: PhysicsConfig = {
   gravity: 35.0, // Strong gravity for realistic arc
@@ -9,7 +9,12 @@ export const PHYSICS_CONFIG: PhysicsConfig = {
   frictionGreen: 0.15, // Significantly reduced from 0.8 to allows proper putting
   frictionGravel: 5.0,
   frictionRough: 0.8, // Reduced from 5.0
+  frictionIce: 0.05, // Barely slows the ball at all
+  frictionSnow: 10.0,
+  frictionMud: 12.0,
   restitution: 0.4, // Less bouncy
+  magnusCoefficient: 0.003,
+  spinDecay: 0.6,
   maxVelocity: 80, 
   minVelocityToStop: 0.2, // Lowered
 };
@@ -17,6 +22,7 @@ export const PHYSICS_CONFIG: PhysicsConfig = {
 export const PHYSICS_CONSTANTS = {
   BALL_MASS: 0.0459, // Standard Golf Ball Mass (kg)
   CONTACT_TIME: 0.0005, // Duration of impact (s)
+  BALL_RADIUS: 0.15, // World units, used for collisions and spin
 };
 
 export const TILE_SIZE = 40;
@@ -31,14 +37,44 @@ export const COLORS = {
   [TileType.GRAVEL]: '#a8a29e', // stone-400
   [TileType.OBSTACLE]: '#78716c', // stone-500
   [TileType.TREE]: '#14532d', // green-900 
+  [TileType.ICE]: '#bae6fd', // sky-200
+  [TileType.SNOW]: '#f8fafc', // slate-50
+  [TileType.LAVA]: '#f97316', // orange-500
+  [TileType.MUD]: '#78350f', // amber-900
   [TileType.EMPTY]: 'transparent',
 };
 
+// Okabe-Ito based, for red-green colour blindness: fairway, sand, lava and mud differ in
+// lightness as well as hue, and water sits on the blue side away from the greens
+export const COLOR_BLIND_COLORS: Record<TileType, string> = {
+  [TileType.FAIRWAY]: '#009e73', // Bluish green
+  [TileType.ROUGH]: '#00583f',
+  [TileType.SAND]: '#f0e442', // Yellow
+  [TileType.WATER]: '#0072b2', // Blue
+  [TileType.GREEN]: '#8fdcc2',
+  [TileType.GRAVEL]: '#a3a3a3',
+  [TileType.OBSTACLE]: '#616161',
+  [TileType.TREE]: '#1c3b30',
+  [TileType.ICE]: '#bde4f7',
+  [TileType.SNOW]: '#f8fafc',
+  [TileType.LAVA]: '#d55e00', // Vermillion
+  [TileType.MUD]: '#cc79a7', // Reddish purple
+  [TileType.EMPTY]: 'transparent',
+};
+
+export const TILE_PALETTES: Record<Palette, Record<TileType, string>> = {
+  STANDARD: COLORS,
+  COLOR_BLIND: COLOR_BLIND_COLORS,
+};
+
 export const SIDE_COLORS = {
   SOIL: '#574435', // Dark brown
   SAND: '#eab308', // Darker yellow
   WATER: '#1d4ed8', // Darker blue
   STONE: '#57534e', // Darker stone
+  ICE: '#38bdf8', // sky-400
+  LAVA: '#292524', // Cooled crust
+  MUD: '#451a03', // Wet peat
 };
 
 export const ISO_ANGLE = Math.PI / 6; // 30 degrees
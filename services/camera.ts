@@ -0,0 +1,130 @@
+import { CameraState, Vector3 } from '../types';
+import { TILE_SIZE } from '../constants';
+
+// --- CAMERA ---
+// Ground-plane projection for the isometric camera, and the controller that eases it
+// towards a goal. A goal names only what it wants: the ground point at the centre of the
+// view, the zoom, the rotation. Whatever it leaves out stays where the player put it, and
+// each part is dropped once reached, so a finished move hands the camera back.
+
+export interface GroundPoint {
+  x: number;
+  z: number;
+}
+
+export interface CameraGoal {
+  pivot?: GroundPoint; // Ground point wanted at the centre of the view
+  zoom?: number;
+  rotation?: number; // Radians; not wrapped, so a step can be added to a step in progress
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+export const MIN_ZOOM = 0.3;
+export const MAX_ZOOM = 3;
+const CAMERA_EASE = 5; // Per second; the camera covers about 5/6 of the gap in 1/3 s
+const PIVOT_TOLERANCE = 0.02; // Tiles
+const ZOOM_TOLERANCE = 0.002;
+const ROTATION_TOLERANCE = 0.002; // Radians
+
+export const ISO_X_SCALE = TILE_SIZE * Math.cos(Math.PI / 6);
+export const ISO_Y_SCALE = TILE_SIZE * Math.sin(Math.PI / 6);
+
+// Screen position of a world point. `depth` grows towards the viewer, for back-to-front sorting.
+export const projectWorld = (v: Vector3, camera: CameraState): { x: number; y: number; depth: number } => {
+  const cosR = Math.cos(camera.rotation);
+  const sinR = Math.sin(camera.rotation);
+  const rx = v.x * cosR - v.z * sinR;
+  const rz = v.x * sinR + v.z * cosR;
+  return {
+    x: (rx - rz) * ISO_X_SCALE * camera.zoom + camera.offset.x,
+    y: ((rx + rz) * ISO_Y_SCALE - v.y * TILE_SIZE) * camera.zoom + camera.offset.y,
+    depth: rx + rz,
+  };
+};
+
+// Screen position of a ground point at zoom 1 with no offset
+const projectGround = (point: GroundPoint, rotation: number) => {
+  const cosR = Math.cos(rotation);
+  const sinR = Math.sin(rotation);
+  const rx = point.x * cosR - point.z * sinR;
+  const rz = point.x * sinR + point.z * cosR;
+  return { x: (rx - rz) * ISO_X_SCALE, y: (rx + rz) * ISO_Y_SCALE };
+};
+
+// A camera at `rotation` and `zoom` with ground point `pivot` at screen point `at`
+export const cameraAround = (pivot: GroundPoint, at: { x: number; y: number }, rotation: number, zoom: number): CameraState => {
+  const iso = projectGround(pivot, rotation);
+  return { rotation, zoom, offset: { x: at.x - iso.x * zoom, y: at.y - iso.y * zoom } };
+};
+
+// The ground point (y = 0) under a screen point
+export const groundAt = (camera: CameraState, at: { x: number; y: number }): GroundPoint => {
+  const term1 = (at.x - camera.offset.x) / camera.zoom / ISO_X_SCALE;
+  const term2 = (at.y - camera.offset.y) / camera.zoom / ISO_Y_SCALE;
+  const rx = (term1 + term2) / 2;
+  const rz = (term2 - term1) / 2;
+
+  const cosR = Math.cos(-camera.rotation);
+  const sinR = Math.sin(-camera.rotation);
+  return { x: rx * cosR - rz * sinR, z: rx * sinR + rz * cosR };
+};
+
+// Centre and zoom that fit every point in the view, `margin` px in from each edge
+export const framePoints = (points: GroundPoint[], rotation: number, viewport: Viewport, margin: number): { pivot: GroundPoint; zoom: number } => {
+  const projected = points.map(p => projectGround(p, rotation));
+  const spanX = Math.max(...projected.map(p => p.x)) - Math.min(...projected.map(p => p.x));
+  const spanY = Math.max(...projected.map(p => p.y)) - Math.min(...projected.map(p => p.y));
+  const zoom = Math.min(
+    (viewport.width - 2 * margin) / Math.max(1, spanX),
+    (viewport.height - 2 * margin) / Math.max(1, spanY),
+  );
+  return {
+    pivot: {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      z: points.reduce((sum, p) => sum + p.z, 0) / points.length,
+    },
+    zoom: Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom)),
+  };
+};
+
+// One frame of easing towards the goal. Returns the goal with the reached parts removed, or null.
+export const stepCamera = (camera: CameraState, goal: CameraGoal, viewport: Viewport, dt: number): { camera: CameraState; goal: CameraGoal | null } => {
+  const k = 1 - Math.exp(-CAMERA_EASE * dt);
+  const centre = { x: viewport.width / 2, y: viewport.height / 2 };
+  const from = groundAt(camera, centre);
+  const next: CameraGoal = { ...goal };
+
+  let pivot = from;
+  if (goal.pivot) {
+    pivot = { x: from.x + (goal.pivot.x - from.x) * k, z: from.z + (goal.pivot.z - from.z) * k };
+    if (Math.hypot(goal.pivot.x - pivot.x, goal.pivot.z - pivot.z) < PIVOT_TOLERANCE) {
+      pivot = goal.pivot;
+      delete next.pivot;
+    }
+  }
+
+  let zoom = camera.zoom;
+  if (goal.zoom !== undefined) {
+    zoom = camera.zoom * Math.pow(goal.zoom / camera.zoom, k); // Even steps in scale, not in size
+    if (Math.abs(goal.zoom - zoom) < ZOOM_TOLERANCE) {
+      zoom = goal.zoom;
+      delete next.zoom;
+    }
+  }
+
+  let rotation = camera.rotation;
+  if (goal.rotation !== undefined) {
+    rotation = camera.rotation + (goal.rotation - camera.rotation) * k;
+    if (Math.abs(goal.rotation - rotation) < ROTATION_TOLERANCE) {
+      rotation = goal.rotation;
+      delete next.rotation;
+    }
+  }
+
+  const done = next.pivot === undefined && next.zoom === undefined && next.rotation === undefined;
+  return { camera: cameraAround(pivot, centre, rotation, zoom), goal: done ? null : next };
+};
@@ -0,0 +1,262 @@
+import { CameraState, Palette, Tile, TileType, Vector3 } from '../types';
+import { TILE_SIZE, TILE_PALETTES } from '../constants';
+import { projectWorld } from './camera';
+import { TerrainRenderer, TerrainView } from './terrainRenderer';
+import {
+  BASE_GROUND_LEVEL, PROP_HEADROOM, TILE_CORNERS, WALL_SHADOWS, SIDE_CAPS, PropPolygon, TREE_SHAPE, ROCK_SHAPE,
+  GRASS_BLADES, GRASS_WIDTH, GRASS_COLOR, getCornerHeights, getWallColor, getFloorY, getSlopeShade, hasGrass,
+} from './terrainStyle';
+
+// --- CANVAS 2D TERRAIN ---
+// The fallback backend, and the drawing the scene uses to put terrain back over a ball.
+// Tiles are painted back to front in square chunks, each cached as an image until the
+// zoom, rotation or palette changes; panning only moves the images.
+
+const CHUNK_SIZE = 8; // Tiles per side of a cached terrain chunk
+const CHUNK_PADDING = 2; // Screen px around a chunk image for strokes
+const VIEW_SETTLE_MS = 150; // A view that changed this recently is still moving
+
+type ScreenPoint = { x: number; y: number };
+
+// A square block of tiles drawn once into its own image. Bounds are in screen px
+// relative to camera.offset, so panning moves the image without redrawing it.
+interface TerrainChunk {
+  cx: number;
+  cz: number;
+  tiles: Tile[];
+  minHeight: number;
+  maxHeight: number;
+  image: HTMLCanvasElement | null;
+  bounds: { x: number; y: number; width: number; height: number } | null;
+}
+
+// Zoom, rotation, pixel ratio and palette the chunk images were drawn at
+interface ChunkView {
+  zoom: number;
+  rotation: number;
+  dpr: number;
+  palette: Palette;
+  chunks: Map<string, TerrainChunk>; // The grouping `order` was sorted from
+  order: TerrainChunk[]; // Back to front
+}
+
+export const drawQuad = (ctx: CanvasRenderingContext2D, p1: ScreenPoint, p2: ScreenPoint, p3: ScreenPoint, p4: ScreenPoint, color: string) => {
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(p1.x, p1.y);
+  ctx.lineTo(p2.x, p2.y);
+  ctx.lineTo(p3.x, p3.y);
+  ctx.lineTo(p4.x, p4.y);
+  ctx.closePath();
+  ctx.fill();
+};
+
+const fillProp = (ctx: CanvasRenderingContext2D, basePos: ScreenPoint, size: number, shape: PropPolygon[]) => {
+  shape.forEach(({ color, points }) => {
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    points.forEach(([x, y], i) => i === 0 ? ctx.moveTo(basePos.x + x * size, basePos.y + y * size) : ctx.lineTo(basePos.x + x * size, basePos.y + y * size));
+    ctx.closePath();
+    ctx.fill();
+  });
+};
+
+const drawTree = (ctx: CanvasRenderingContext2D, basePos: ScreenPoint, size: number) => fillProp(ctx, basePos, size, TREE_SHAPE);
+
+const drawRock = (ctx: CanvasRenderingContext2D, basePos: ScreenPoint, size: number) => fillProp(ctx, basePos, size, ROCK_SHAPE);
+
+const drawGrass = (ctx: CanvasRenderingContext2D, basePos: ScreenPoint, zoom: number, tx: number, tz: number) => {
+  if (!hasGrass(tx, tz)) return;
+  ctx.strokeStyle = GRASS_COLOR;
+  ctx.lineWidth = GRASS_WIDTH * zoom;
+  GRASS_BLADES.forEach(([x0, y0, x1, y1]) => {
+    ctx.beginPath();
+    ctx.moveTo(basePos.x + x0 * zoom, basePos.y + y0 * zoom);
+    ctx.lineTo(basePos.x + x1 * zoom, basePos.y + y1 * zoom);
+    ctx.stroke();
+  });
+};
+
+export const drawTile3D = (ctx: CanvasRenderingContext2D, tile: Tile, camera: CameraState, palette: Palette) => {
+  const worldToScreen = (v: Vector3) => projectWorld(v, camera);
+  const heights = getCornerHeights(tile);
+  const corners = TILE_CORNERS.map(([dx, dz], i) => ({ x: tile.x + dx, y: heights[i], z: tile.z + dz }));
+  const top = corners.map(worldToScreen);
+  const topColor = TILE_PALETTES[palette][tile.type];
+
+  const floorY = getFloorY(tile);
+  if (floorY < tile.height) {
+    const bottom = corners.map(c => worldToScreen({ ...c, y: floorY }));
+    const walls = (lower: ScreenPoint[], color: string) =>
+      top.forEach((s, i) => drawQuad(ctx, s, top[(i + 1) % 4], lower[(i + 1) % 4], lower[i], color));
+    walls(bottom, getWallColor(tile));
+
+    const cap = SIDE_CAPS[tile.type];
+    if (cap) walls(corners.map(c => worldToScreen({ ...c, y: Math.max(floorY, c.y - cap.depth) })), cap.color);
+    // Shadows
+    WALL_SHADOWS.forEach((shadow, i) => {
+      if (shadow > 0) drawQuad(ctx, top[i], top[(i + 1) % 4], bottom[(i + 1) % 4], bottom[i], `rgba(0,0,0,${shadow})`);
+    });
+  }
+
+  ctx.beginPath();
+  top.forEach((s, i) => i === 0 ? ctx.moveTo(s.x, s.y) : ctx.lineTo(s.x, s.y));
+  ctx.closePath();
+  ctx.fillStyle = topColor;
+  ctx.fill();
+  ctx.strokeStyle = topColor;
+  ctx.lineWidth = 1;
+  ctx.stroke();
+
+  const shade = getSlopeShade(tile);
+  if (shade !== 0) {
+    ctx.fillStyle = shade > 0 ? `rgba(255,255,255,${shade})` : `rgba(0,0,0,${-shade})`;
+    ctx.fill();
+  }
+
+  const center = worldToScreen({ x: tile.x, y: tile.height, z: tile.z });
+  const size = TILE_SIZE * camera.zoom;
+
+  // Draw Objects on top of tiles
+  if (tile.type === TileType.TREE) drawTree(ctx, center, size);
+  if (tile.type === TileType.OBSTACLE) drawRock(ctx, center, size);
+  if (tile.type === TileType.ROUGH) drawGrass(ctx, center, camera.zoom, tile.x, tile.z);
+};
+
+// Regroup tiles into chunks. A chunk whose tiles are all the same objects as before
+// keeps its image, so an editor stroke redraws one chunk.
+const groupChunks = (tiles: Tile[], previous: Map<string, TerrainChunk>): Map<string, TerrainChunk> => {
+  const groups = new Map<string, Tile[]>();
+  for (const tile of tiles) {
+    const key = `${Math.floor(tile.x / CHUNK_SIZE)},${Math.floor(tile.z / CHUNK_SIZE)}`;
+    const group = groups.get(key);
+    if (group) group.push(tile);
+    else groups.set(key, [tile]);
+  }
+
+  const chunks = new Map<string, TerrainChunk>();
+  groups.forEach((group, key) => {
+    const old = previous.get(key);
+    if (old && old.tiles.length === group.length && old.tiles.every((t, i) => t === group[i])) {
+      chunks.set(key, old);
+      return;
+    }
+    const [cx, cz] = key.split(',').map(Number);
+    const heights = group.flatMap(t => t.corners ?? [t.height]);
+    chunks.set(key, {
+      cx,
+      cz,
+      tiles: group,
+      minHeight: Math.min(...heights),
+      maxHeight: Math.max(...heights),
+      image: null,
+      bounds: null,
+    });
+  });
+  return chunks;
+};
+
+// Draws into the scene's own context, under whatever the scene draws next
+export const createCanvasRenderer = (ctx: CanvasRenderingContext2D): TerrainRenderer => {
+  let chunks = new Map<string, TerrainChunk>();
+  let chunkView: ChunkView | null = null;
+  let viewChangedAt = -Infinity; // performance.now() of the last zoom, rotation or palette change
+
+  const draw = ({ camera, palette, dpr, width, height }: TerrainView) => {
+    const worldToScreen = (v: Vector3) => projectWorld(v, camera);
+
+    // Zooming or rotating changes every chunk's picture, so drop the images; either that
+    // or a regroup needs a fresh back-to-front order
+    const view = chunkView;
+    const viewChanged = !view || view.zoom !== camera.zoom || view.rotation !== camera.rotation || view.dpr !== dpr || view.palette !== palette;
+    if (viewChanged) {
+      chunks.forEach(chunk => {
+        chunk.image = null;
+        chunk.bounds = null;
+      });
+    }
+    if (viewChanged || view.chunks !== chunks) {
+      const centerDepth = (c: TerrainChunk) =>
+        worldToScreen({ x: (c.cx + 0.5) * CHUNK_SIZE, y: 0, z: (c.cz + 0.5) * CHUNK_SIZE }).depth;
+      chunkView = {
+        zoom: camera.zoom,
+        rotation: camera.rotation,
+        dpr,
+        palette,
+        chunks,
+        order: [...chunks.values()].sort((a, b) => centerDepth(a) - centerDepth(b)),
+      };
+    }
+
+    // Screen box around every corner of the chunk, from the floor up to the tallest prop
+    const chunkBounds = (chunk: TerrainChunk) => {
+      const x0 = chunk.cx * CHUNK_SIZE - 0.5, x1 = x0 + CHUNK_SIZE;
+      const z0 = chunk.cz * CHUNK_SIZE - 0.5, z1 = z0 + CHUNK_SIZE;
+      const heights = [Math.min(BASE_GROUND_LEVEL, chunk.minHeight - 0.5), chunk.maxHeight + PROP_HEADROOM];
+      const points = [x0, x1].flatMap(x => [z0, z1].flatMap(z => heights.map(y => worldToScreen({ x, y, z }))));
+      const xs = points.map(p => p.x - camera.offset.x);
+      const ys = points.map(p => p.y - camera.offset.y);
+      const x = Math.floor(Math.min(...xs)) - CHUNK_PADDING;
+      const y = Math.floor(Math.min(...ys)) - CHUNK_PADDING;
+      return { x, y, width: Math.ceil(Math.max(...xs)) + CHUNK_PADDING - x, height: Math.ceil(Math.max(...ys)) + CHUNK_PADDING - y };
+    };
+
+    // Painter's algorithm within the chunk; chunks themselves go back to front. Tiles
+    // and chunks are equal squares on one grid, so ordering their centres by projected
+    // depth is exact at any rotation: any two that overlap on screen come out in order.
+    const drawChunkTiles = (target: CanvasRenderingContext2D, chunk: TerrainChunk) => {
+      const sorted = [...chunk.tiles].sort((a, b) =>
+        worldToScreen({ x: a.x, y: 0, z: a.z }).depth - worldToScreen({ x: b.x, y: 0, z: b.z }).depth
+      );
+      sorted.forEach(tile => drawTile3D(target, tile, camera, palette));
+    };
+
+    const renderChunk = (chunk: TerrainChunk, bounds: NonNullable<TerrainChunk['bounds']>) => {
+      const image = document.createElement('canvas');
+      image.width = Math.ceil(bounds.width * dpr);
+      image.height = Math.ceil(bounds.height * dpr);
+      const cCtx = image.getContext('2d');
+      if (!cCtx) return null;
+      cCtx.scale(dpr, dpr);
+      cCtx.translate(-(camera.offset.x + bounds.x), -(camera.offset.y + bounds.y));
+      drawChunkTiles(cCtx, chunk);
+      return image;
+    };
+
+    // While the camera keeps turning or zooming, every frame would throw its images away,
+    // so draw straight to the screen until it settles
+    const now = performance.now();
+    const inMotion = viewChanged && now - viewChangedAt < VIEW_SETTLE_MS;
+    if (viewChanged) viewChangedAt = now;
+
+    // Visible chunks render on demand, off-screen ones free their image
+    chunkView?.order.forEach(chunk => {
+      const bounds = chunk.bounds ?? (chunk.bounds = chunkBounds(chunk));
+      const left = camera.offset.x + bounds.x;
+      const top = camera.offset.y + bounds.y;
+      const visible = left < width && top < height && left + bounds.width > 0 && top + bounds.height > 0;
+      if (!visible) {
+        chunk.image = null;
+        return;
+      }
+      if (inMotion) {
+        drawChunkTiles(ctx, chunk);
+        return;
+      }
+      chunk.image = chunk.image ?? renderChunk(chunk, bounds);
+      if (chunk.image) ctx.drawImage(chunk.image, left, top, chunk.image.width / dpr, chunk.image.height / dpr);
+    });
+  };
+
+  return {
+    kind: 'CANVAS',
+    setTiles: tiles => {
+      chunks = groupChunks(tiles, chunks);
+    },
+    draw,
+    dispose: () => {
+      chunks = new Map();
+      chunkView = null;
+    },
+  };
+};
@@ -0,0 +1,80 @@
+import { ClubType, Lie } from '../types';
+import { isClubAllowed } from './shotModel';
+
+// --- CONTROLS ---
+// Aiming without a mouse. Keys and gamepad buttons both map onto the same actions, and
+// the left stick nudges the aim continuously. The canvas turns actions into an aim line
+// and then shoots through the same path as a drag.
+
+export type InputAction = 'AIM_LEFT' | 'AIM_RIGHT' | 'POWER_UP' | 'POWER_DOWN' | 'PREV_CLUB' | 'NEXT_CLUB' | 'SWING' | 'CANCEL';
+
+export const KEY_BINDINGS: Record<string, InputAction> = {
+  ArrowLeft: 'AIM_LEFT',
+  a: 'AIM_LEFT',
+  ArrowRight: 'AIM_RIGHT',
+  d: 'AIM_RIGHT',
+  ArrowUp: 'POWER_UP',
+  w: 'POWER_UP',
+  ArrowDown: 'POWER_DOWN',
+  s: 'POWER_DOWN',
+  '[': 'PREV_CLUB',
+  ']': 'NEXT_CLUB',
+  c: 'NEXT_CLUB',
+  Enter: 'SWING',
+  ' ': 'SWING',
+  Escape: 'CANCEL',
+};
+
+// Standard gamepad layout: A, B, bumpers, d-pad
+export const GAMEPAD_BINDINGS: Record<number, InputAction> = {
+  0: 'SWING',
+  1: 'CANCEL',
+  4: 'PREV_CLUB',
+  5: 'NEXT_CLUB',
+  12: 'POWER_UP',
+  13: 'POWER_DOWN',
+  14: 'AIM_LEFT',
+  15: 'AIM_RIGHT',
+};
+
+export const AIM_STEP = 2; // Degrees per press
+export const POWER_STEP = 0.05; // Per press
+export const FINE_STEP = 0.25; // Shift scales a press down to this
+export const DEFAULT_KEY_POWER = 0.5; // Where keyboard aim starts
+const STICK_DEADZONE = 0.2;
+const STICK_AIM_SPEED = 60; // Degrees per second at full tilt
+const STICK_POWER_SPEED = 0.6; // Per second at full tilt
+
+export const getKeyAction = (key: string): InputAction | undefined =>
+  KEY_BINDINGS[key.length === 1 ? key.toLowerCase() : key];
+
+// Buttons pressed since the last poll, and how far the left stick wants the aim to move
+export interface GamepadRead {
+  actions: InputAction[];
+  aim: number; // Degrees
+  power: number;
+  pressed: boolean[]; // Pass back in on the next poll
+}
+
+export const readGamepad = (pad: Gamepad, previous: boolean[], dt: number): GamepadRead => {
+  const pressed = pad.buttons.map(button => button.pressed);
+  const actions = pressed.flatMap((down, i) => (down && !previous[i] && GAMEPAD_BINDINGS[i] ? [GAMEPAD_BINDINGS[i]] : []));
+  const stick = (value = 0) => (Math.abs(value) < STICK_DEADZONE ? 0 : value);
+  return {
+    actions,
+    aim: stick(pad.axes[0]) * STICK_AIM_SPEED * dt,
+    power: -stick(pad.axes[1]) * STICK_POWER_SPEED * dt, // Stick up is negative
+    pressed,
+  };
+};
+
+// The next club in the bag either way, skipping any the lie rules out
+export const cycleClub = (club: ClubType, step: 1 | -1, lie: Lie): ClubType => {
+  const clubs = Object.values(ClubType);
+  let index = clubs.indexOf(club);
+  for (let i = 0; i < clubs.length; i++) {
+    index = (index + step + clubs.length) % clubs.length;
+    if (isClubAllowed(clubs[index], lie)) return clubs[index];
+  }
+  return club;
+};
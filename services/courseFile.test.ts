@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { generateLevel } from './levelGenerator';
+import { CUSTOM_CODE } from './levelEditor';
+import { createCourseFile, parseCourseFile, serializeCourse, COURSE_FILE_VERSION } from './courseFile';
+
+const level = generateLevel(3, 2024);
+const current = createCourseFile(level, 'Test');
+const saved = JSON.parse(JSON.stringify(level)); // As it comes back from disk, -0 and all
+
+const errorsOf = (file: unknown) => {
+  const parsed = parseCourseFile(JSON.stringify(file));
+  return 'errors' in parsed ? parsed.errors : [];
+};
+
+// The file as an older version of the game would have written it
+const version1 = () => {
+  const { metadata, wind, entities, ...rest } = current;
+  return { ...rest, version: 1, seed: metadata.seed, biome: metadata.biome };
+};
+const version2 = () => {
+  const { entities, ...rest } = current;
+  return { ...rest, version: 2 };
+};
+
+describe('course files', () => {
+  it('round-trip a generated hole', () => {
+    const parsed = parseCourseFile(serializeCourse(level, 'Test'));
+    if ('errors' in parsed) throw new Error(parsed.errors.join('\n'));
+    expect(parsed.name).toBe('Test');
+    expect(parsed.level).toEqual(saved);
+  });
+
+  it('migrate version 1 forward with calm wind, no entities and a custom code', () => {
+    const parsed = parseCourseFile(JSON.stringify(version1()));
+    if ('errors' in parsed) throw new Error(parsed.errors.join('\n'));
+    expect(parsed.level.seed).toBe(level.seed);
+    expect(parsed.level.biome).toBe(level.biome);
+    expect(parsed.level.code).toBe(CUSTOM_CODE);
+    expect(parsed.level.wind.gustStrength).toBe(0);
+    expect(parsed.level.entities).toEqual([]);
+    expect(parsed.level.tiles).toEqual(level.tiles);
+  });
+
+  it('migrate version 2 forward with no entities', () => {
+    const parsed = parseCourseFile(JSON.stringify(version2()));
+    if ('errors' in parsed) throw new Error(parsed.errors.join('\n'));
+    expect(parsed.level).toEqual({ ...saved, entities: [] });
+  });
+
+  it('refuse files that are not courses or are from a newer game', () => {
+    expect(parseCourseFile('{')).toEqual({ errors: ['Not a valid JSON file'] });
+    expect(errorsOf({ ...current, format: 'other' })).toEqual(['Not a course file']);
+    expect(errorsOf({ ...current, version: 0 })).toEqual(['Invalid schema version "0"']);
+    expect(errorsOf({ ...current, version: COURSE_FILE_VERSION + 1 })).toEqual([
+      `Course was saved by a newer version of the game (schema ${COURSE_FILE_VERSION + 1})`,
+    ]);
+  });
+
+  it('say what is wrong with a malformed course', () => {
+    const [first, second] = current.tiles;
+    expect(errorsOf({
+      ...current,
+      par: 0,
+      metadata: { ...current.metadata, biome: 'SWAMP' },
+      tiles: [{ ...first, height: 99 }, { ...second, type: 'LAVA_LAMP' }, ...current.tiles.slice(2)],
+      entities: [{ type: 'WINDMILL', position: { x: 1, y: 0, z: 1 } }, { type: 'BUMPER', position: { x: 1, y: 0, z: 1 }, radius: 0.3, armLength: 1, period: 0, phase: 0 }],
+    })).toEqual([
+      'Unknown biome "SWAMP"',
+      'Par must be a whole number from 1 to 10',
+      'Entity 0 (WINDMILL) has a malformed facing, blades, armLength, period, phase',
+      'Entity 1 (BUMPER) needs a positive period',
+      `Tile 0 (${first.x}, ${first.z}) has height 99, expected -10 to 20`,
+      `Tile 1 has an unknown type "LAVA_LAMP"`,
+    ]);
+  });
+
+  it('refuse a tee or cup that is off the map or on an unplayable tile', () => {
+    const { x, z } = current.hole;
+    const cup = (t: { x: number; z: number }) => t.x === Math.round(x) && t.z === Math.round(z);
+    const flooded = current.tiles.map(t => (cup(t) ? { ...t, type: 'WATER' } : t));
+    expect(errorsOf({ ...current, start: { x: 9999, y: 0, z: 0 } })).toEqual(['Start at (9999, 0) is off the map']);
+    expect(errorsOf({ ...current, tiles: flooded })).toEqual([`Hole at (${Math.round(x)}, ${Math.round(z)}) is on WATER`]);
+  });
+
+  it('cap the number of errors reported', () => {
+    const errors = errorsOf({ ...current, tiles: current.tiles.map(t => ({ ...t, height: 99 })) });
+    expect(errors).toHaveLength(9);
+    expect(errors[8]).toMatch(/^\.\.\.and \d+ more$/);
+  });
+});
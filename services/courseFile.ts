@@ -0,0 +1,295 @@
+import { Biome, Level, LevelEntity, LevelEntityType, MapType, Tile, TileType, Vector3, WindField } from '../types';
+import { getTileGrid, getTileAt } from './physicsEngine';
+import { CUSTOM_CODE, MIN_PAR, MAX_PAR, UNPLAYABLE_TILES } from './levelEditor';
+import { MAP_TYPES, BIOMES } from './levelGenerator';
+
+// --- COURSE FILES ---
+// A Level on disk. The current schema (version 3) is:
+//
+//   {
+//     "format": "physics-golf-course",
+//     "version": 3,
+//     "name": "Windy Dogleg",
+//     "metadata": { "levelIndex": 3, "seed": 1234, "code": "3-YA", "mapType": "CONTINENT", "biome": "MEADOW" },
+//     "par": 4,
+//     "start": { "x": 4, "y": 0.15, "z": 5 },
+//     "hole": { "x": 26, "y": 0, "z": 24 },
+//     "wind": { "base": { "x": 1, "y": 0, "z": 0 }, "gustStrength": 0.2, "gustPeriod": 6, "gustPhase": 0, "heightScale": 3 },
+//     "tiles": [{ "x": 0, "z": 0, "height": -0.5, "type": "WATER" }, { "x": 1, "z": 0, "height": 0.1, "type": "ROUGH", "corners": [0, 0.1, 0.2, 0.1] }, ...],
+//     "entities": [{ "type": "BUMPER", "position": { "x": 12, "y": 0.3, "z": 9 }, "radius": 0.3, "armLength": 1.2, "period": 4, "phase": 0 }, ...]
+//   }
+//
+// Version 1 had no wind or metadata block (seed and biome sat at the top level), version 2
+// had no entities; older files are migrated forward on import. Tile coordinates are integer grid cells.
+
+export const COURSE_FILE_FORMAT = 'physics-golf-course';
+export const COURSE_FILE_VERSION = 3;
+
+export const MAX_GRID_COORD = 511;
+const HEIGHT_RANGE = [-10, 20];
+const PAR_RANGE = [MIN_PAR, MAX_PAR];
+const MAX_REPORTED_ERRORS = 8;
+
+export interface CourseFile {
+  format: typeof COURSE_FILE_FORMAT;
+  version: number;
+  name: string;
+  metadata: {
+    levelIndex: number;
+    seed: number;
+    code: string;
+    mapType: MapType;
+    biome: Biome;
+  };
+  par: number;
+  start: Vector3;
+  hole: Vector3;
+  wind: WindField;
+  tiles: Tile[];
+  entities: LevelEntity[];
+}
+
+export type CourseParseResult = { level: Level; name: string } | { errors: string[] };
+
+// Vector and number fields each kind of entity needs
+const ENTITY_FIELDS: Record<LevelEntityType, { vectors: string[]; numbers: string[] }> = {
+  WINDMILL: { vectors: ['position'], numbers: ['facing', 'blades', 'armLength', 'period', 'phase'] },
+  SLIDING_BLOCK: { vectors: ['position', 'size', 'travel'], numbers: ['period', 'phase'] },
+  BUMPER: { vectors: ['position'], numbers: ['radius', 'armLength', 'period', 'phase'] },
+  CONVEYOR: { vectors: ['position', 'velocity'], numbers: [] },
+  TELEPORTER: { vectors: ['position', 'exit'], numbers: ['radius'] },
+};
+
+const CALM: WindField = { base: { x: 0, y: 0, z: 0 }, gustStrength: 0, gustPeriod: 6, gustPhase: 0, heightScale: 3 };
+
+// --- EXPORT ---
+
+export const createCourseFile = (level: Level, name = `Course ${level.code}`): CourseFile => ({
+  format: COURSE_FILE_FORMAT,
+  version: COURSE_FILE_VERSION,
+  name,
+  metadata: {
+    levelIndex: level.levelIndex,
+    seed: level.seed,
+    code: level.code,
+    mapType: level.mapType,
+    biome: level.biome,
+  },
+  par: level.par,
+  start: level.startPosition,
+  hole: level.holePosition,
+  wind: level.wind,
+  tiles: level.tiles,
+  entities: level.entities,
+});
+
+export const serializeCourse = (level: Level, name?: string): string => JSON.stringify(createCourseFile(level, name));
+
+// --- MIGRATION ---
+
+// Each step takes a file of version n and returns version n + 1
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  1: (data) => {
+    const { seed, biome, ...rest } = data;
+    return {
+      ...rest,
+      version: 2,
+      name: data.name ?? 'Imported course',
+      metadata: {
+        levelIndex: 0,
+        seed: seed ?? 0,
+        code: CUSTOM_CODE,
+        mapType: 'CONTINENT',
+        biome: biome ?? 'MEADOW',
+      },
+      wind: CALM,
+    };
+  },
+  2: (data) => ({ ...data, version: 3, entities: [] }),
+};
+
+export const migrateCourseFile = (data: Record<string, unknown>): Record<string, unknown> => {
+  let migrated = data;
+  while (isNumber(migrated.version) && migrated.version < COURSE_FILE_VERSION) {
+    const step = MIGRATIONS[migrated.version];
+    if (!step) throw new Error(`No migration from version ${migrated.version}`);
+    migrated = step(migrated);
+  }
+  return migrated;
+};
+
+// --- VALIDATION ---
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isWholeNumber = (v: unknown): v is number => Number.isInteger(v);
+const isVector = (v: unknown): v is Vector3 => isRecord(v) && isNumber(v.x) && isNumber(v.y) && isNumber(v.z);
+const inRange = (v: number, [min, max]: number[]) => v >= min && v <= max;
+const isGridCoord = (v: unknown) => isWholeNumber(v) && inRange(v, [0, MAX_GRID_COORD]);
+const cell = (v: { x?: unknown; z?: unknown }) => `(${v.x}, ${v.z})`;
+
+const validateTile = (tile: unknown, index: number, errors: string[]) => {
+  const label = `Tile ${index}`;
+  if (!isRecord(tile)) {
+    errors.push(`${label} is not an object`);
+    return;
+  }
+  if (!isGridCoord(tile.x) || !isGridCoord(tile.z)) {
+    errors.push(`${label} has an out-of-range coordinate ${cell(tile)}, expected whole numbers 0-${MAX_GRID_COORD}`);
+  }
+  if (!Object.values(TileType).includes(tile.type as TileType)) errors.push(`${label} has an unknown type "${tile.type}"`);
+  if (!isNumber(tile.height) || !inRange(tile.height, HEIGHT_RANGE)) {
+    errors.push(`${label} ${cell(tile)} has height ${tile.height}, expected ${HEIGHT_RANGE[0]} to ${HEIGHT_RANGE[1]}`);
+  }
+  if (tile.corners !== undefined) {
+    const ok = Array.isArray(tile.corners) && tile.corners.length === 4 &&
+      tile.corners.every((h: unknown) => isNumber(h) && inRange(h, HEIGHT_RANGE));
+    if (!ok) errors.push(`${label} ${cell(tile)} needs exactly four corner heights in range`);
+  }
+};
+
+const validateWind = (wind: unknown, errors: string[]) => {
+  const ok = isRecord(wind) && isVector(wind.base) &&
+    isNumber(wind.gustStrength) && isNumber(wind.gustPeriod) && wind.gustPeriod > 0 &&
+    isNumber(wind.gustPhase) && isNumber(wind.heightScale) && wind.heightScale > 0;
+  if (!ok) errors.push('Wind is malformed');
+};
+
+const validateEntity = (entity: unknown, index: number, errors: string[]) => {
+  const label = `Entity ${index}`;
+  const type = isRecord(entity) ? entity.type : undefined;
+  const fields = ENTITY_FIELDS[type as LevelEntityType];
+  if (!isRecord(entity) || !fields) {
+    errors.push(`${label} has an unknown type "${type}"`);
+    return;
+  }
+  const missing = [
+    ...fields.vectors.filter(f => !isVector(entity[f])),
+    ...fields.numbers.filter(f => !isNumber(entity[f])),
+  ];
+  if (missing.length > 0) errors.push(`${label} (${entity.type}) has a malformed ${missing.join(', ')}`);
+  if ('period' in entity && !(isNumber(entity.period) && entity.period > 0)) errors.push(`${label} (${entity.type}) needs a positive period`);
+  if (entity.type === 'CONVEYOR') {
+    const ok = Array.isArray(entity.cells) && entity.cells.length > 0 &&
+      entity.cells.every((c: unknown) => isRecord(c) && isGridCoord(c.x) && isGridCoord(c.z));
+    if (!ok) errors.push(`${label} (CONVEYOR) needs a list of grid cells`);
+  }
+};
+
+// Where a ball position lands on the grid, with a readable complaint if it's unplayable.
+// `tiles` is null when the grid itself is broken and can't be searched.
+const validatePlacement = (label: string, pos: unknown, tiles: Tile[] | null, errors: string[]) => {
+  if (pos === undefined) {
+    errors.push(`Course has no ${label.toLowerCase()}`);
+    return;
+  }
+  if (!isVector(pos)) {
+    errors.push(`${label} position is malformed`);
+    return;
+  }
+  if (!tiles) return;
+  const tile = getTileAt(getTileGrid(tiles), pos);
+  const where = cell({ x: Math.round(pos.x), z: Math.round(pos.z) });
+  if (!tile) errors.push(`${label} at ${where} is off the map`);
+  else if (UNPLAYABLE_TILES.includes(tile.type)) errors.push(`${label} at ${where} is on ${tile.type}`);
+};
+
+const validateCourse = (data: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+
+  if (typeof data.name !== 'string') errors.push('Course name is missing');
+  const meta = data.metadata;
+  if (!isRecord(meta)) {
+    errors.push('Metadata block is missing');
+  } else {
+    if (!isWholeNumber(meta.levelIndex) || meta.levelIndex < 0) errors.push('Metadata levelIndex must be a whole number');
+    if (!isWholeNumber(meta.seed) || !inRange(meta.seed, [0, 0xffffffff])) errors.push('Metadata seed must be a 32-bit whole number');
+    if (!MAP_TYPES.includes(meta.mapType as MapType)) errors.push(`Unknown map type "${meta.mapType}"`);
+    if (!BIOMES.includes(meta.biome as Biome)) errors.push(`Unknown biome "${meta.biome}"`);
+  }
+
+  if (!isWholeNumber(data.par) || !inRange(data.par, PAR_RANGE)) {
+    errors.push(`Par must be a whole number from ${PAR_RANGE[0]} to ${PAR_RANGE[1]}`);
+  }
+  validateWind(data.wind, errors);
+  if (!Array.isArray(data.entities)) errors.push('Entities list is missing');
+  else data.entities.forEach((entity: unknown, i: number) => validateEntity(entity, i, errors));
+
+  if (!Array.isArray(data.tiles) || data.tiles.length === 0) {
+    errors.push('Course has no tiles');
+    validatePlacement('Start', data.start, null, errors);
+    validatePlacement('Hole', data.hole, null, errors);
+    return errors;
+  }
+  const errorsBeforeTiles = errors.length;
+  data.tiles.forEach((tile: unknown, i: number) => validateTile(tile, i, errors));
+
+  const seen = new Set<string>();
+  for (const tile of data.tiles) {
+    if (!isRecord(tile)) continue;
+    const key = `${tile.x},${tile.z}`;
+    if (seen.has(key)) {
+      errors.push(`Two tiles share ${cell(tile)}`);
+      break;
+    }
+    seen.add(key);
+  }
+
+  // Looking up the start and hole tiles needs a sane grid
+  const grid = errors.length === errorsBeforeTiles ? (data.tiles as Tile[]) : null;
+  validatePlacement('Start', data.start, grid, errors);
+  validatePlacement('Hole', data.hole, grid, errors);
+  return errors;
+};
+
+// --- IMPORT ---
+
+export const parseCourseFile = (json: string): CourseParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { errors: ['Not a valid JSON file'] };
+  }
+
+  if (!isRecord(data) || data.format !== COURSE_FILE_FORMAT) {
+    return { errors: ['Not a course file'] };
+  }
+  if (!isWholeNumber(data.version) || data.version < 1) {
+    return { errors: [`Invalid schema version "${data.version}"`] };
+  }
+  if (data.version > COURSE_FILE_VERSION) {
+    return { errors: [`Course was saved by a newer version of the game (schema ${data.version})`] };
+  }
+
+  let migrated: Record<string, unknown>;
+  try {
+    migrated = migrateCourseFile(data);
+  } catch (e) {
+    return { errors: [(e as Error).message] };
+  }
+
+  const errors = validateCourse(migrated);
+  if (errors.length > 0) {
+    const extra = errors.length - MAX_REPORTED_ERRORS;
+    return { errors: extra > 0 ? [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${extra} more`] : errors };
+  }
+
+  const file = migrated as unknown as CourseFile; // Checked by validateCourse
+  return {
+    name: file.name,
+    level: {
+      tiles: file.tiles.map(t => ({ x: t.x, z: t.z, height: t.height, type: t.type, ...(t.corners && { corners: t.corners }) })),
+      startPosition: file.start,
+      holePosition: file.hole,
+      par: file.par,
+      levelIndex: file.metadata.levelIndex,
+      seed: file.metadata.seed,
+      mapType: file.metadata.mapType,
+      biome: file.metadata.biome,
+      code: file.metadata.code || CUSTOM_CODE,
+      wind: file.wind,
+      entities: file.entities,
+    },
+  };
+};
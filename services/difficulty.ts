@@ -0,0 +1,47 @@
+// --- DIFFICULTY ---
+// Holes get harder with the level index: in a run that's how many holes the player has
+// cleared, in a round it's the hole number. Everything the generator varies lives in one
+// settings object, and the curve blends from the easiest to the hardest settings.
+
+export interface DifficultySettings {
+  holeLength: number; // Shortest tee-to-hole distance in tiles, on a standard-size map
+  fairwayWidth: number; // Half-width of the main fairway in tiles (the walker's `width`)
+  hazards: number; // Multiplier on trees, rocks, lakes and bunkers
+  greenRadius: number; // Tiles
+  contour: number; // Multiplier on the rolling terrain height
+}
+
+export interface DifficultyCurve {
+  easiest: DifficultySettings;
+  hardest: DifficultySettings;
+  rampLevels: number; // Levels from easiest to hardest
+}
+
+export interface Difficulty extends DifficultySettings {
+  rating: number; // 1-10, for the HUD
+  label: string;
+}
+
+export const DIFFICULTY_CURVE: DifficultyCurve = {
+  easiest: { holeLength: 16, fairwayWidth: 2, hazards: 0.6, greenRadius: 2.5, contour: 0.6 },
+  hardest: { holeLength: 26, fairwayWidth: 0, hazards: 1.6, greenRadius: 1.5, contour: 1.5 },
+  rampLevels: 20,
+};
+
+const LABELS = ['Easy', 'Medium', 'Hard', 'Expert'];
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export const getDifficulty = (levelIndex: number, curve: DifficultyCurve = DIFFICULTY_CURVE): Difficulty => {
+  const t = Math.max(0, Math.min(1, (levelIndex - 1) / curve.rampLevels));
+  const { easiest, hardest } = curve;
+  return {
+    holeLength: lerp(easiest.holeLength, hardest.holeLength, t),
+    fairwayWidth: Math.round(lerp(easiest.fairwayWidth, hardest.fairwayWidth, t)),
+    hazards: lerp(easiest.hazards, hardest.hazards, t),
+    greenRadius: lerp(easiest.greenRadius, hardest.greenRadius, t),
+    contour: lerp(easiest.contour, hardest.contour, t),
+    rating: 1 + Math.round(t * 9),
+    label: LABELS[Math.min(LABELS.length - 1, Math.floor(t * LABELS.length))],
+  };
+};
@@ -0,0 +1,73 @@
+import { LevelEntity, Vector3, Windmill } from '../types';
+
+// --- ENTITY POSES ---
+// Where each level entity is at a moment on the level clock. Nothing here keeps state:
+// physics, trajectory prediction and the canvas all ask for the pose at their own time.
+
+export const BLADE_WIDTH = 0.1; // Half-thickness of a windmill blade
+export const BUMPER_HEIGHT = 0.6;
+export const TELEPORTER_LIFT = 0.3; // A ball this close above a pad is on it
+
+export interface EntityPose {
+  position: Vector3;
+  velocity: Vector3; // Of the entity's surface: a conveyor's belt, a bumper's post
+  angle: number; // Radians, for things that turn
+}
+
+// One windmill blade: unit direction out from the hub, and how fast that direction
+// swings (so a point s along the blade moves at sweep * s)
+export interface Blade {
+  dir: Vector3;
+  sweep: Vector3;
+}
+
+const TAU = Math.PI * 2;
+const STILL: Vector3 = { x: 0, y: 0, z: 0 };
+
+export const getEntityPose = (entity: LevelEntity, time: number): EntityPose => {
+  switch (entity.type) {
+    case 'WINDMILL':
+      return { position: entity.position, velocity: STILL, angle: entity.phase + TAU * time / entity.period };
+    case 'SLIDING_BLOCK': {
+      // Eases back and forth along the track: 0 at one end, 1 at the other
+      const w = TAU / entity.period;
+      const along = 0.5 - 0.5 * Math.cos(w * time + entity.phase);
+      const rate = 0.5 * w * Math.sin(w * time + entity.phase);
+      const { position: p, travel } = entity;
+      return {
+        position: { x: p.x + travel.x * along, y: p.y + travel.y * along, z: p.z + travel.z * along },
+        velocity: { x: travel.x * rate, y: travel.y * rate, z: travel.z * rate },
+        angle: 0,
+      };
+    }
+    case 'BUMPER': {
+      const w = TAU / entity.period;
+      const angle = entity.phase + w * time;
+      const { position: p, armLength } = entity;
+      return {
+        position: { x: p.x + Math.cos(angle) * armLength, y: p.y, z: p.z + Math.sin(angle) * armLength },
+        velocity: { x: -Math.sin(angle) * armLength * w, y: 0, z: Math.cos(angle) * armLength * w },
+        angle,
+      };
+    }
+    case 'CONVEYOR':
+      return { position: entity.position, velocity: entity.velocity, angle: 0 };
+    case 'TELEPORTER':
+      return { position: entity.position, velocity: STILL, angle: 0 };
+  }
+};
+
+// Blades turn in the vertical plane along the windmill's facing, evenly spaced from `angle`
+export const getBlades = (windmill: Windmill, angle: number): Blade[] => {
+  const across = { x: Math.cos(windmill.facing), z: Math.sin(windmill.facing) };
+  const w = TAU / windmill.period;
+  return Array.from({ length: windmill.blades }, (_, i) => {
+    const theta = angle + i * TAU / windmill.blades;
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+    return {
+      dir: { x: across.x * cos, y: sin, z: across.z * cos },
+      sweep: { x: -across.x * sin * w, y: cos * w, z: -across.z * sin * w },
+    };
+  });
+};
@@ -0,0 +1,15 @@
+// Browser file helpers shared by course and replay import/export
+
+export const downloadJson = (filename: string, json: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// First .json file in a drop, if any
+export const getDroppedJsonFile = (data: DataTransfer): File | null =>
+  Array.from(data.files).find(f => f.type === 'application/json' || f.name.toLowerCase().endsWith('.json')) ?? null;
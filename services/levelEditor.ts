@@ -0,0 +1,158 @@
+import { Level, Tile, TileType, Vector3 } from '../types';
+import { getTileGrid, getTileAt, getSurfaceHeight } from './physicsEngine';
+
+// --- LEVEL EDITOR ---
+// Pure edits on a Level plus a linear undo/redo history. The canvas picks tiles,
+// this module decides what an edit does to them.
+
+export type EditorTool = 'PAINT' | 'RAISE' | 'LOWER' | 'START' | 'HOLE';
+
+export const PAINTABLE_TILES: TileType[] = [
+  TileType.FAIRWAY,
+  TileType.ROUGH,
+  TileType.GREEN,
+  TileType.SAND,
+  TileType.GRAVEL,
+  TileType.ICE,
+  TileType.SNOW,
+  TileType.MUD,
+  TileType.WATER,
+  TileType.LAVA,
+  TileType.TREE,
+  TileType.OBSTACLE,
+];
+
+export const CUSTOM_CODE = 'CUSTOM'; // Hand-built holes can't be rebuilt from a seed
+export const HEIGHT_STEP = 0.25;
+export const MIN_PAR = 1; // Also the range a course file may carry
+export const MAX_PAR = 10;
+
+// No ball can be played from these, so neither the tee nor the cup may sit on one.
+// Course files are held to the same rule on import.
+export const UNPLAYABLE_TILES: TileType[] = [TileType.WATER, TileType.LAVA, TileType.TREE, TileType.OBSTACLE, TileType.EMPTY];
+
+const MIN_HEIGHT = -2;
+const MAX_HEIGHT = 6;
+const WATER_LEVEL = -0.5; // Same as the generator's water (and lava)
+const START_LIFT = 0.15; // Ball rests just above the tee, as in generateLevel
+const HISTORY_LIMIT = 100;
+
+const isLiquid = (type: TileType) => type === TileType.WATER || type === TileType.LAVA;
+
+// Liquids and props are flat boxes; everything else keeps its slope
+const isFlatType = (type: TileType) =>
+  isLiquid(type) || type === TileType.TREE || type === TileType.OBSTACLE;
+
+const clampHeight = (h: number) => Math.max(MIN_HEIGHT, Math.min(MAX_HEIGHT, h));
+
+const paintTile = (tile: Tile, type: TileType): Tile => {
+  if (tile.type === type) return tile;
+  if (isLiquid(type)) return { x: tile.x, z: tile.z, height: WATER_LEVEL, type };
+  // Dry land painted over water comes up to ground level
+  const height = isLiquid(tile.type) ? 0 : tile.height;
+  if (isFlatType(type)) return { x: tile.x, z: tile.z, height, type };
+  return { ...tile, height, type };
+};
+
+const raiseTile = (tile: Tile, delta: number): Tile => {
+  if (isLiquid(tile.type)) return tile;
+  const height = clampHeight(tile.height + delta);
+  const shift = height - tile.height;
+  return {
+    ...tile,
+    height,
+    corners: tile.corners && (tile.corners.map(c => c + shift) as Tile['corners']),
+  };
+};
+
+// Ball and cup sit on the surface of whatever tile they're on
+const restOnSurface = (tiles: Tile[], pos: Vector3, lift: number): Vector3 => {
+  const tile = getTileAt(getTileGrid(tiles), pos);
+  return tile ? { ...pos, y: getSurfaceHeight(tile, pos.x, pos.z) + lift } : pos;
+};
+
+// Whether the tee or the cup sits on `tile`
+const isMarkerTile = (level: Level, tile: Tile): boolean => {
+  const grid = getTileGrid(level.tiles);
+  return getTileAt(grid, level.startPosition) === tile || getTileAt(grid, level.holePosition) === tile;
+};
+
+// Tee and cup only go on playable tiles, and a tile under either can't be painted unplayable
+export const editTile = (level: Level, tool: EditorTool, x: number, z: number, paintType: TileType): Level => {
+  const index = level.tiles.findIndex(t => t.x === x && t.z === z);
+  if (index === -1) return level;
+  const target = { x, y: 0, z };
+  const tile = level.tiles[index];
+
+  if ((tool === 'START' || tool === 'HOLE') && UNPLAYABLE_TILES.includes(tile.type)) return level;
+  if (tool === 'PAINT' && UNPLAYABLE_TILES.includes(paintType) && isMarkerTile(level, tile)) return level;
+
+  if (tool === 'START') {
+    return { ...level, code: CUSTOM_CODE, startPosition: restOnSurface(level.tiles, target, START_LIFT) };
+  }
+  if (tool === 'HOLE') {
+    return { ...level, code: CUSTOM_CODE, holePosition: restOnSurface(level.tiles, target, 0) };
+  }
+
+  const edited =
+    tool === 'PAINT' ? paintTile(tile, paintType) : raiseTile(tile, tool === 'RAISE' ? HEIGHT_STEP : -HEIGHT_STEP);
+  if (edited === tile) return level;
+
+  const tiles = level.tiles.map((t, i) => (i === index ? edited : t));
+  return {
+    ...level,
+    tiles,
+    code: CUSTOM_CODE,
+    startPosition: restOnSurface(tiles, level.startPosition, START_LIFT),
+    holePosition: restOnSurface(tiles, level.holePosition, 0),
+  };
+};
+
+export const setPar = (level: Level, par: number): Level => ({
+  ...level,
+  code: CUSTOM_CODE,
+  par: Math.max(MIN_PAR, Math.min(MAX_PAR, par)),
+});
+
+// --- HISTORY ---
+
+export interface EditorHistory {
+  past: Level[];
+  present: Level;
+  future: Level[];
+}
+
+export const createHistory = (level: Level): EditorHistory => ({ past: [], present: level, future: [] });
+
+// `newStep` starts a new undo step; otherwise the edit is folded into the current one
+// (a whole brush stroke undoes in one go).
+export const applyEdit = (history: EditorHistory, level: Level, newStep: boolean): EditorHistory => {
+  if (level === history.present) return history;
+  if (!newStep) return { ...history, present: level };
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: level,
+    future: [],
+  };
+};
+
+export const canUndo = (history: EditorHistory) => history.past.length > 0;
+export const canRedo = (history: EditorHistory) => history.future.length > 0;
+
+export const undo = (history: EditorHistory): EditorHistory =>
+  canUndo(history)
+    ? {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+      }
+    : history;
+
+export const redo = (history: EditorHistory): EditorHistory =>
+  canRedo(history)
+    ? {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+      }
+    : history;
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { encodeCourseCode, decodeCourseCode, generateLevel, generateLevelFromCode, MAP_TYPES, MAP_SIZES } from './levelGenerator';
+
+describe('course codes', () => {
+  it('round-trip the level index, seed and options', () => {
+    for (const mapType of [undefined, ...MAP_TYPES]) {
+      for (const size of [undefined, ...MAP_SIZES]) {
+        const options = { ...(mapType && { mapType }), ...(size && size !== 32 && { size }) };
+        const code = encodeCourseCode(17, 0xdeadbeef, options);
+        expect(decodeCourseCode(code)).toEqual({ levelIndex: 17, seed: 0xdeadbeef, options });
+      }
+    }
+  });
+
+  it('read the same in lower case and with stray whitespace', () => {
+    expect(decodeCourseCode(' 1-k3f9qz-k4 ')).toEqual(decodeCourseCode('1-K3F9QZ-K4'));
+  });
+
+  it('reject malformed codes', () => {
+    for (const code of ['', 'ABC', '1-', '1-K3F9QZ-', '1-K3F9QZ-X', '1-K3F9QZ-3', '1-ZZZZZZZ']) {
+      expect(decodeCourseCode(code)).toBeNull();
+    }
+  });
+});
+
+describe('seeded generation', () => {
+  it('builds the same hole from the same seed', () => {
+    expect(generateLevel(4, 12345)).toEqual(generateLevel(4, 12345));
+  });
+
+  it('builds the hole a code names', () => {
+    const level = generateLevel(3, 999, { mapType: 'CANYON' });
+    expect(level.code).toBe(encodeCourseCode(3, 999, { mapType: 'CANYON' }));
+    expect(generateLevelFromCode(level.code)).toEqual(level);
+  });
+
+  it('builds different holes from different seeds', () => {
+    expect(generateLevel(2, 1).tiles).not.toEqual(generateLevel(2, 2).tiles);
+  });
+});
@@ -1,161 +1,520 @@
 
-import { Level, TileType, Tile, Vector3 } from '../types';
+import { Level, TileType, Tile, MapType, Biome, WindField, LevelEntity, LevelEntityType } from '../types';
+import { createRng, hashSeed, randomInt, Rng } from './random';
+import { computePar, combinePar } from './scoring';
+import { solveLevel } from './levelSolver';
+import { DifficultySettings, getDifficulty } from './difficulty';
+import { getTileGrid, getTileAtCell, getSurfaceHeight, TileGrid } from './physicsEngine';
 
-type MapType = 'ARCHIPELAGO' | 'CONTINENT';
-type Biome = 'MEADOW' | 'DESERT' | 'ALPINE';
+const FAIRWAY_ROLL = 0.8; // Peak-to-trough height of the rolling terrain at normal contour
+const GREEN_TILT = 0.06; // Rise per tile; kept under frictionGreen so a stopped ball stays put
+const TEE_FLAT_RADIUS = 1.5; // Tiles around the start held level, so a teed-up ball stays put
+const TEE_BLEND = 2; // Tiles over which the level tee eases back into the rolling field
+const WIND_STREAM = 1; // Wind draws from its own RNG stream so it never shifts the terrain
+const REGEN_STREAM = 2; // Retries after an unplayable layout draw from their own streams
+const ENTITY_STREAM = 3; // Moving entities too, so adding one never shifts the terrain
+const MAX_ATTEMPTS = 4;
+const WATER_LEVEL = -0.5;
+const START_MARGIN = 4; // Tee and hole stay this far inside the grid edge
 
-export const generateLevel = (levelIndex: number): Level => {
-  const size = 32; // Good size for variety
-  const tiles: Tile[] = [];
-  
-  // 1. Determine Map Mode & Biome
-  const mapType: MapType = Math.random() > 0.5 ? 'ARCHIPELAGO' : 'CONTINENT';
-  const biome: Biome = Math.random() > 0.6 ? (Math.random() > 0.5 ? 'DESERT' : 'ALPINE') : 'MEADOW';
-
-  // Biome Settings
-  let baseGround = TileType.ROUGH;
-  let featureGround = TileType.GRAVEL;
-  let treeChance = 0.1;
-  let obstacleChance = 0.02;
-
-  if (biome === 'DESERT') {
-    baseGround = TileType.SAND;
-    featureGround = TileType.GRAVEL;
-    treeChance = 0.03; // Cacti
-    obstacleChance = 0.05; // Rocks
-  } else if (biome === 'ALPINE') {
-    baseGround = TileType.GRAVEL;
-    featureGround = TileType.ROUGH;
-    treeChance = 0.35; // Dense forest
+export const DEFAULT_MAP_SIZE = 32;
+export const MAP_SIZES = [32, 64, 128, 256];
+const MAX_LENGTH_SCALE = 1.5; // Big maps stretch holes into long par-5s, up to this much
+
+const CANYON_WALL_HEIGHT = 2.5;
+const LINKS_DUNE_HEIGHT = 1.2;
+const POT_BUNKER_DEPTH = 0.3;
+const MOUNTAIN_TIERS = 3;
+const MOUNTAIN_TIER_HEIGHT = 1.5;
+
+// Typical steady wind per biome (m/s)
+const BIOME_WIND: Record<Biome, number> = {
+  MEADOW: 4,
+  DESERT: 6,
+  ALPINE: 8,
+  GLACIER: 9,
+  VOLCANIC: 5,
+  MARSH: 3,
+};
+
+// How often each biome comes up
+const BIOME_WEIGHTS: Record<Biome, number> = {
+  MEADOW: 4,
+  DESERT: 1.5,
+  ALPINE: 1.5,
+  GLACIER: 1,
+  VOLCANIC: 1,
+  MARSH: 1,
+};
+
+export const BIOMES = Object.keys(BIOME_WEIGHTS) as Biome[];
+
+// Which tiles a biome builds with. `liquid` fills every lake and sea.
+interface BiomeSettings {
+  baseGround: TileType;
+  featureGround: TileType;
+  liquid: TileType;
+  treeChance: number;
+  obstacleChance: number;
+}
+
+const BIOME_SETTINGS: Record<Biome, BiomeSettings> = {
+  MEADOW: { baseGround: TileType.ROUGH, featureGround: TileType.GRAVEL, liquid: TileType.WATER, treeChance: 0.1, obstacleChance: 0.02 },
+  DESERT: { baseGround: TileType.SAND, featureGround: TileType.GRAVEL, liquid: TileType.WATER, treeChance: 0.03, obstacleChance: 0.05 }, // Cacti and rocks
+  ALPINE: { baseGround: TileType.GRAVEL, featureGround: TileType.ROUGH, liquid: TileType.WATER, treeChance: 0.35, obstacleChance: 0.02 }, // Dense forest
+  GLACIER: { baseGround: TileType.SNOW, featureGround: TileType.ICE, liquid: TileType.WATER, treeChance: 0.08, obstacleChance: 0.04 },
+  VOLCANIC: { baseGround: TileType.GRAVEL, featureGround: TileType.ROUGH, liquid: TileType.LAVA, treeChance: 0.02, obstacleChance: 0.08 }, // Ash fields and basalt
+  MARSH: { baseGround: TileType.ROUGH, featureGround: TileType.MUD, liquid: TileType.WATER, treeChance: 0.06, obstacleChance: 0 },
+};
+
+// How often each map type comes up when the seed picks one
+const MAP_TYPE_WEIGHTS: Record<MapType, number> = {
+  CONTINENT: 3,
+  ARCHIPELAGO: 2,
+  LINKS: 2,
+  CANYON: 1,
+  MOUNTAIN: 1,
+  ISLAND_GREEN: 1,
+};
+
+export const MAP_TYPES = Object.keys(MAP_TYPE_WEIGHTS) as MapType[];
+
+// How often each kind of moving entity comes up
+const ENTITY_WEIGHTS: Record<LevelEntityType, number> = {
+  WINDMILL: 2,
+  SLIDING_BLOCK: 2,
+  BUMPER: 2,
+  CONVEYOR: 1,
+  TELEPORTER: 1,
+};
+const ENTITY_SPACING = 4; // Tiles between entities, and from the tee
+
+// One letter per map type, for codes that pin the layout
+const MAP_TYPE_CODES: Record<MapType, string> = {
+  CONTINENT: 'C',
+  ARCHIPELAGO: 'A',
+  LINKS: 'L',
+  CANYON: 'K',
+  MOUNTAIN: 'M',
+  ISLAND_GREEN: 'I',
+};
+
+// What the player can pin down about a generated hole; anything unset is left to the seed
+export interface LevelOptions {
+  mapType?: MapType;
+  size?: number; // One of MAP_SIZES
+}
+
+// --- COURSE CODES ---
+// A code is "<levelIndex>-<seed>" in base 36, e.g. "1-K3F9QZ", with a third part when
+// the player chose the map type and/or size: a map type letter and the size in
+// multiples of 32, e.g. "1-K3F9QZ-K" for a canyon, "1-K3F9QZ-4" for a 128 map, "1-K3F9QZ-K4" for both.
+// Generation is fully deterministic, so that's all that's needed to rebuild a hole.
+
+export const encodeCourseCode = (levelIndex: number, seed: number, options: LevelOptions = {}): string => {
+  const { mapType, size } = options;
+  const suffix = (mapType ? MAP_TYPE_CODES[mapType] : '') + (size && size !== DEFAULT_MAP_SIZE ? `${size / 32}` : '');
+  return `${levelIndex.toString(36)}-${(seed >>> 0).toString(36)}${suffix ? `-${suffix}` : ''}`.toUpperCase();
+};
+
+export const decodeCourseCode = (code: string): { levelIndex: number; seed: number; options: LevelOptions } | null => {
+  const match = code.trim().toUpperCase().match(/^([0-9A-Z]{1,4})-([0-9A-Z]{1,7})(?:-([A-Z]?)([0-9]?))?$/);
+  if (!match) return null;
+
+  const levelIndex = parseInt(match[1], 36);
+  const seed = parseInt(match[2], 36);
+  if (!Number.isFinite(levelIndex) || !Number.isFinite(seed) || seed > 0xffffffff) return null;
+
+  const options: LevelOptions = {};
+  if (match[3]) {
+    options.mapType = MAP_TYPES.find(t => MAP_TYPE_CODES[t] === match[3]);
+    if (!options.mapType) return null;
+  }
+  if (match[4]) {
+    options.size = parseInt(match[4], 10) * 32;
+    if (!MAP_SIZES.includes(options.size)) return null;
   }
+  // A dash with nothing after it isn't a code
+  if (match[0].endsWith('-')) return null;
 
-  // Init Grid
-  const grid: TileType[][] = Array(size).fill(null).map(() => Array(size).fill(TileType.WATER));
-  const heightMap: number[][] = Array(size).fill(null).map(() => Array(size).fill(-0.5));
-
-  // Noise Helper
-  const seed = Math.random() * 10000;
-  const noise = (x: number, z: number, scale: number) => 
-      Math.sin(x * scale + seed) * Math.cos(z * scale + seed);
-
-  // 2. Place Start and Hole (Enforce Distance)
-  const margin = 4;
-  let startX = margin, startZ = margin;
-  let endX = size - margin, endZ = size - margin;
-  
-  // Retry loop to ensure they are far apart
-  for(let i=0; i<20; i++) {
-      const sX = Math.floor(Math.random() * (size - 2*margin)) + margin;
-      const sZ = Math.floor(Math.random() * (size - 2*margin)) + margin;
-      
-      const eX = Math.floor(Math.random() * (size - 2*margin)) + margin;
-      const eZ = Math.floor(Math.random() * (size - 2*margin)) + margin;
-
-      const dist = Math.sqrt((sX - eX)**2 + (sZ - eZ)**2);
-      if (dist > size * 0.6) { // Must be at least 60% of map width apart
-          startX = sX; startZ = sZ;
-          endX = eX; endZ = eZ;
-          break;
-      }
+  return { levelIndex, seed, options };
+};
+
+export const generateLevelFromCode = (code: string): Level | null => {
+  const decoded = decodeCourseCode(code);
+  return decoded ? generateLevel(decoded.levelIndex, decoded.seed, decoded.options) : null;
+};
+
+// Every hole is checked with the reachability solver. A layout that can't be finished
+// is first repaired (a straight fairway bridge from tee to hole), then regenerated from
+// a fresh stream. Retries are seeded too, so a course code still always gives the same hole.
+// `options` can pin the map type and size. The level index sets the difficulty.
+export const generateLevel = (levelIndex: number, seed: number = hashSeed(levelIndex), options: LevelOptions = {}): Level => {
+  let level: Level | null = null;
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    for (const repair of [false, true]) {
+      level = buildLevel(levelIndex, seed, attempt, repair, options);
+      const solution = solveLevel(level);
+      if (solution) return { ...level, par: combinePar(level.par, solution.strokes) };
+    }
   }
+  // Still unsolved after every retry: the last repaired layout has a straight fairway to the hole
+  return level!;
+};
 
-  // 3. Terrain Generation Logic
-  if (mapType === 'ARCHIPELAGO') {
-      // --- ISLAND HOPPING ---
-      // 1. Create islands at Start, End, and 2-3 Waypoints
-      const waypoints = [
-          { x: startX, z: startZ },
-          { x: endX, z: endZ }
-      ];
-
-      // Add intermediate islands
-      const steps = 3;
-      for(let i=1; i<steps; i++) {
-          const t = i / steps;
-          // Linear interp with random wiggle
-          const wx = startX + (endX - startX) * t + (Math.random() - 0.5) * 10;
-          const wz = startZ + (endZ - startZ) * t + (Math.random() - 0.5) * 10;
-          waypoints.push({ x: Math.floor(wx), z: Math.floor(wz) });
-      }
+// --- LAYOUT TOOLKIT ---
+// Every map type paints onto the same grid with the same few tools: seeded noise,
+// the walker, discs and clearings. A layout only decides where things go.
 
-      // Render Islands
-      waypoints.forEach(pt => {
-          // Island Radius
-          const radius = 3 + Math.random() * 2;
-          for(let x=0; x<size; x++) {
-              for(let z=0; z<size; z++) {
-                  const dist = Math.sqrt((x - pt.x)**2 + (z - pt.z)**2);
-                  const n = noise(x, z, 0.4) * 1.5; // Irregular shape
-                  if (dist + n < radius) {
-                      if (x > 0 && x < size-1 && z > 0 && z < size-1) {
-                        grid[x][z] = baseGround;
-                        heightMap[x][z] = 0;
-                      }
-                  }
-              }
-          }
-      });
-
-      // Connect with Fairways (Bridges)
-      // We essentially just run the walker between waypoints
-      waypoints.sort((a,b) => {
-          // Sort waypoints by distance from start to ensure path order
-          const da = (a.x - startX)**2 + (a.z - startZ)**2;
-          const db = (b.x - startX)**2 + (b.z - startZ)**2;
-          return da - db;
-      });
-
-      for(let i=0; i<waypoints.length-1; i++) {
-          connectPoints(grid, heightMap, waypoints[i], waypoints[i+1], TileType.FAIRWAY, 0);
-      }
+interface Cell {
+  x: number;
+  z: number;
+}
 
-  } else {
-      // --- CONTINENT / SOLID LAND ---
-      // Fill mostly with land, carve out lakes
-      for(let x=0; x<size; x++) {
-          for(let z=0; z<size; z++) {
-              const n = noise(x, z, 0.15);
-              // 75% land
-              if (n > -0.6) {
-                   if (x > 1 && x < size-2 && z > 1 && z < size-2) {
-                       grid[x][z] = baseGround;
-                       heightMap[x][z] = 0;
-                       
-                       // Patches of feature ground
-                       if (noise(x, z, 0.5) > 0.5) {
-                           grid[x][z] = featureGround;
-                       }
-                   }
-              }
-          }
-      }
-      
-      // Ensure Path Exists
-      connectPoints(grid, heightMap, {x: startX, z: startZ}, {x: endX, z: endZ}, TileType.FAIRWAY, 1);
+interface LayoutGrid {
+  size: number;
+  grid: TileType[][];
+  heightMap: number[][]; // Offset above the rolling ground; water sits at WATER_LEVEL
+  rng: Rng;
+  noise: (x: number, z: number, scale: number) => number;
+  baseGround: TileType;
+  featureGround: TileType;
+  difficulty: DifficultySettings;
+  holeLength: number; // Tiles, scaled up on big maps
+}
+
+interface Layout {
+  start: Cell;
+  end: Cell;
+  elevation?: (x: number, z: number) => number; // Continuous lift on top of the contours (tiers, dunes)
+  propDensity?: number; // Scales the biome's tree and rock chances
+  par?: number; // Target par; the solver can still raise it
+}
+
+const inGrid = (g: LayoutGrid, x: number, z: number) => x >= 0 && x < g.size && z >= 0 && z < g.size;
+
+const setCell = (g: LayoutGrid, x: number, z: number, type: TileType, height = 0) => {
+  if (!inGrid(g, x, z)) return;
+  g.grid[x][z] = type;
+  g.heightMap[x][z] = height;
+};
+
+// Paint every cell `paint` gives a type for; null leaves the cell alone.
+// `inset` keeps a border of whatever was there.
+const fillGrid = (g: LayoutGrid, inset: number, paint: (x: number, z: number) => TileType | null, height = 0) => {
+  for (let x = inset; x < g.size - inset; x++) {
+    for (let z = inset; z < g.size - inset; z++) {
+      const type = paint(x, z);
+      if (type) setCell(g, x, z, type, height);
+    }
+  }
+};
+
+// Cells within `radius` of the centre, roughened by the noise when `ragged` is set
+const paintDisc = (g: LayoutGrid, center: Cell, radius: number, type: TileType, ragged = 0) => {
+  const reach = Math.ceil(radius + ragged);
+  for (let x = center.x - reach; x <= center.x + reach; x++) {
+    for (let z = center.z - reach; z <= center.z + reach; z++) {
+      if (x <= 0 || x >= g.size - 1 || z <= 0 || z >= g.size - 1) continue;
+      if (Math.hypot(x - center.x, z - center.z) + g.noise(x, z, 0.4) * ragged < radius) setCell(g, x, z, type);
+    }
+  }
+};
+
+// Props and water near a tee or cup give way to plain ground
+const clearRadius = (g: LayoutGrid, center: Cell, r: number) => {
+  for (let x = center.x - r; x <= center.x + r; x++) {
+    for (let z = center.z - r; z <= center.z + r; z++) {
+      if (!inGrid(g, x, z)) continue;
+      const type = g.grid[x][z];
+      if (type === TileType.TREE || type === TileType.OBSTACLE || type === TileType.WATER) setCell(g, x, z, g.baseGround);
+    }
+  }
+};
+
+// Tee and hole somewhere on the grid, `minDist` to `maxDist` apart: a random tee, then
+// the hole at a random heading and distance, retried until both fit inside the margins.
+const pickEndpoints = (g: LayoutGrid, minDist = g.holeLength, maxDist = minDist * 1.4): { start: Cell; end: Cell } => {
+  const { rng, size } = g;
+  const fits = (c: Cell) => c.x >= START_MARGIN && c.x < size - START_MARGIN && c.z >= START_MARGIN && c.z < size - START_MARGIN;
+
+  for (let i = 0; i < 20; i++) {
+    const start = { x: randomInt(rng, START_MARGIN, size - START_MARGIN), z: randomInt(rng, START_MARGIN, size - START_MARGIN) };
+    const angle = rng() * Math.PI * 2;
+    const dist = minDist + rng() * (maxDist - minDist);
+    const end = { x: Math.round(start.x + Math.cos(angle) * dist), z: Math.round(start.z + Math.sin(angle) * dist) };
+    if (fits(end)) return { start, end };
+  }
+
+  // Nothing fit: run the diagonal through the middle, as long as the map allows
+  const reach = Math.min(minDist, (size - 2 * START_MARGIN - 1) * Math.SQRT2) / (2 * Math.SQRT2);
+  const mid = size / 2;
+  return {
+    start: { x: Math.round(mid - reach), z: Math.round(mid - reach) },
+    end: { x: Math.round(mid + reach), z: Math.round(mid + reach) },
+  };
+};
+
+// Points part-way from start to end, pushed sideways by up to `sway` tiles.
+// `alternate` swings them left and right in turn, for switchbacks.
+const pickWaypoints = (g: LayoutGrid, start: Cell, end: Cell, count: number, sway: number, alternate = false): Cell[] => {
+  const length = Math.hypot(end.x - start.x, end.z - start.z) || 1;
+  const side = { x: -(end.z - start.z) / length, z: (end.x - start.x) / length };
+  const firstSide = g.rng() > 0.5 ? 1 : -1;
+  return Array.from({ length: count }, (_, i) => {
+    const t = (i + 1) / (count + 1);
+    const offset = alternate ? sway * (i % 2 === 0 ? firstSide : -firstSide) * (0.6 + g.rng() * 0.4) : (g.rng() - 0.5) * 2 * sway;
+    return {
+      x: Math.floor(start.x + (end.x - start.x) * t + side.x * offset),
+      z: Math.floor(start.z + (end.z - start.z) * t + side.z * offset),
+    };
+  });
+};
+
+// Walk a path through each point in turn
+const connectPath = (g: LayoutGrid, path: Cell[], type: TileType, width: number, wiggle = true) => {
+  for (let i = 0; i < path.length - 1; i++) connectPoints(g, path[i], path[i + 1], type, width, wiggle);
+};
+
+// Helper: The "Walker" to connect points
+function connectPoints(g: LayoutGrid, p1: Cell, p2: Cell, type: TileType, width: number, wiggle = true) {
+    const { size, grid, rng } = g;
+    // Waypoints can wander off the grid; aim for the nearest cell the walker can stand on
+    const clampCell = (v: number) => Math.max(1, Math.min(size - 2, v));
+    let currX = clampCell(p1.x);
+    let currZ = clampCell(p1.z);
+    const endX = clampCell(p2.x);
+    const endZ = clampCell(p2.z);
+    
+    let steps = 0;
+    // Wiggles can undo progress, so they stop after a generous budget. From then on
+    // every step closes the gap and the walk always reaches the end.
+    const wiggleSteps = size * 2;
+    
+    while (currX !== endX || currZ !== endZ) {
+        steps++;
+        const dx = endX - currX;
+        const dz = endZ - currZ;
+        
+        if (Math.abs(dx) > Math.abs(dz)) currX += Math.sign(dx);
+        else currZ += Math.sign(dz);
+        
+        // Random wiggle (never on the final step onto the target)
+        const arrived = currX === endX && currZ === endZ;
+        if (wiggle && !arrived && steps < wiggleSteps && rng() > 0.7) {
+             if (rng() > 0.5) currX += (rng() > 0.5 ? 1 : -1);
+             else currZ += (rng() > 0.5 ? 1 : -1);
+        }
+        
+        // Clamp
+        currX = clampCell(currX);
+        currZ = clampCell(currZ);
+
+        // Paint
+        for(let i=-width; i<=width; i++) {
+            for(let j=-width; j<=width; j++) {
+                const tx = currX + i;
+                const tz = currZ + j;
+                if (inGrid(g, tx, tz) && grid[tx][tz] !== TileType.GREEN) setCell(g, tx, tz, type);
+            }
+        }
+    }
+}
+
+const smoothstep = (t: number) => {
+  const c = Math.max(0, Math.min(1, t));
+  return c * c * (3 - 2 * c);
+};
+
+// --- LAYOUTS ---
+
+// Island hopping: islands at the tee, the hole and a couple of waypoints, bridged by fairway
+const layoutArchipelago = (g: LayoutGrid): Layout => {
+  const { start, end } = pickEndpoints(g);
+  const waypoints = [start, end, ...pickWaypoints(g, start, end, 2, 5)];
+
+  waypoints.forEach(pt => paintDisc(g, pt, 3 + g.rng() * 2, g.baseGround, 1.5));
+
+  // Sort waypoints by distance from start to ensure path order
+  waypoints.sort((a, b) => ((a.x - start.x) ** 2 + (a.z - start.z) ** 2) - ((b.x - start.x) ** 2 + (b.z - start.z) ** 2));
+  connectPath(g, waypoints, TileType.FAIRWAY, Math.max(0, g.difficulty.fairwayWidth - 1));
+
+  return { start, end };
+};
+
+// Solid land with a few lakes and a wandering fairway
+const layoutContinent = (g: LayoutGrid): Layout => {
+  const { start, end } = pickEndpoints(g);
+
+  // About 75% land at normal hazards, with patches of feature ground
+  const lakeLevel = -1 + 0.4 * g.difficulty.hazards;
+  fillGrid(g, 2, (x, z) => {
+    if (g.noise(x, z, 0.15) <= lakeLevel) return null;
+    return g.noise(x, z, 0.5) > 0.5 ? g.featureGround : g.baseGround;
+  });
+  connectPoints(g, start, end, TileType.FAIRWAY, g.difficulty.fairwayWidth);
+
+  return { start, end };
+};
+
+// A narrow corridor cut through raised rock, bending once or twice on the way
+const layoutCanyon = (g: LayoutGrid): Layout => {
+  const { start, end } = pickEndpoints(g);
+
+  fillGrid(g, 0, () => TileType.OBSTACLE, CANYON_WALL_HEIGHT);
+  for (let x = 0; x < g.size; x++) {
+    for (let z = 0; z < g.size; z++) g.heightMap[x][z] += g.noise(x, z, 0.6) * 0.8;
+  }
+
+  const path = [start, ...pickWaypoints(g, start, end, 1 + Math.floor(g.rng() * 2), 6, true), end];
+  connectPath(g, path, g.baseGround, Math.max(1, g.difficulty.fairwayWidth));
+  connectPath(g, path, TileType.FAIRWAY, 0, false);
+
+  // Only the floor grows props, and sparsely, so they can't plug the corridor
+  return { start, end, propDensity: 0.3 };
+};
+
+// Open, treeless seaside ground: rolling dunes, wide fairways and small sunken pot bunkers
+const layoutLinks = (g: LayoutGrid): Layout => {
+  const { start, end } = pickEndpoints(g);
+
+  fillGrid(g, 2, (x, z) => (g.noise(x, z, 0.5) > 0.6 ? g.featureGround : g.baseGround));
+  connectPath(g, [start, ...pickWaypoints(g, start, end, 1, 4), end], TileType.FAIRWAY, g.difficulty.fairwayWidth + 1);
+
+  // Pot bunkers, mostly scattered along the line of play
+  const bunkers = Math.round((6 + g.rng() * 5) * g.difficulty.hazards);
+  for (let i = 0; i < bunkers; i++) {
+    const t = g.rng();
+    const x = Math.round(start.x + (end.x - start.x) * t + (g.rng() - 0.5) * 8);
+    const z = Math.round(start.z + (end.z - start.z) * t + (g.rng() - 0.5) * 8);
+    if (x <= 1 || x >= g.size - 2 || z <= 1 || z >= g.size - 2) continue;
+    setCell(g, x, z, TileType.SAND, -POT_BUNKER_DEPTH);
+    if (g.rng() > 0.5) setCell(g, x + 1, z, TileType.SAND, -POT_BUNKER_DEPTH);
   }
 
-  // 4. Place Trees & Obstacles (Enhanced)
+  const duneScale = 0.25 + g.rng() * 0.15;
+  const elevation = (x: number, z: number) => LINKS_DUNE_HEIGHT * Math.max(0, g.noise(x, z, duneScale)) ** 2;
+  return { start, end, elevation, propDensity: 0.15 };
+};
+
+// Terraced hillside: flat tiers joined by short steep ramps, climbed (or descended)
+// by a fairway that switches back across the slope on every tier
+const layoutMountain = (g: LayoutGrid): Layout => {
+  const { start, end } = pickEndpoints(g);
+
+  fillGrid(g, 2, (x, z) => (g.noise(x, z, 0.5) > 0.5 ? g.featureGround : g.baseGround));
+  const switchbacks = pickWaypoints(g, start, end, MOUNTAIN_TIERS, Math.hypot(end.x - start.x, end.z - start.z) * 0.35, true);
+  connectPath(g, [start, ...switchbacks, end], TileType.FAIRWAY, g.difficulty.fairwayWidth);
+
+  const uphill = g.rng() > 0.5;
+  const dx = end.x - start.x;
+  const dz = end.z - start.z;
+  const lengthSq = dx * dx + dz * dz;
+  const elevation = (x: number, z: number) => {
+    // Progress along the hole, with the tier edges bent a little by the noise
+    const t = Math.max(0, Math.min(1, ((x - start.x) * dx + (z - start.z) * dz) / lengthSq + g.noise(x, z, 0.2) * 0.05));
+    const u = t * MOUNTAIN_TIERS;
+    const tier = Math.min(MOUNTAIN_TIERS - 1, Math.floor(u));
+    // Each tier is flat for most of its length and ramps up to the next at the end;
+    // the top tier holds the green (or the tee) and stays flat
+    const ramp = tier < MOUNTAIN_TIERS - 1 ? smoothstep((u - tier - 0.7) / 0.3) : 0;
+    const terraced = tier + ramp;
+    return MOUNTAIN_TIER_HEIGHT * (uphill ? terraced : MOUNTAIN_TIERS - 1 - terraced);
+  };
+  return { start, end, elevation };
+};
+
+// Par-3 carry from a tee island to a green surrounded by water
+const layoutIslandGreen = (g: LayoutGrid): Layout => {
+  const { start, end } = pickEndpoints(g, 10, 14);
+
+  paintDisc(g, start, 3, g.baseGround, 1);
+  paintDisc(g, start, 1.5, TileType.FAIRWAY);
+  paintDisc(g, end, g.difficulty.greenRadius + 1.5, g.baseGround);
+
+  // Sometimes a bail-out island short of the green
+  if (g.rng() > 0.5) paintDisc(g, pickWaypoints(g, start, end, 1, 4)[0], 2, TileType.FAIRWAY, 1);
+
+  return { start, end, propDensity: 0.5, par: 3 };
+};
+
+const LAYOUTS: Record<MapType, (g: LayoutGrid) => Layout> = {
+  ARCHIPELAGO: layoutArchipelago,
+  CONTINENT: layoutContinent,
+  CANYON: layoutCanyon,
+  LINKS: layoutLinks,
+  MOUNTAIN: layoutMountain,
+  ISLAND_GREEN: layoutIslandGreen,
+};
+
+// One draw from a weight table
+const pickWeighted = <T extends string>(rng: Rng, weights: Record<T, number>): T => {
+  const keys = Object.keys(weights) as T[];
+  const total = keys.reduce((sum, k) => sum + weights[k], 0);
+  let roll = rng() * total;
+  for (const key of keys) {
+    roll -= weights[key];
+    if (roll < 0) return key;
+  }
+  return keys[keys.length - 1];
+};
+
+const buildLevel = (levelIndex: number, seed: number, attempt: number, repair: boolean, options: LevelOptions): Level => {
+  const size = options.size ?? DEFAULT_MAP_SIZE;
+  const tiles: Tile[] = [];
+  const rng = createRng(attempt === 0 ? hashSeed(seed, levelIndex) : hashSeed(seed, levelIndex, REGEN_STREAM, attempt));
+  
+  // 1. Determine Map Mode & Biome (the roll is always drawn, so pinning the type keeps the rest of the stream)
+  const rolledMapType = pickWeighted(rng, MAP_TYPE_WEIGHTS);
+  const mapType = options.mapType ?? rolledMapType;
+  const biome = pickWeighted(rng, BIOME_WEIGHTS);
+  const { baseGround, featureGround, liquid, treeChance, obstacleChance } = BIOME_SETTINGS[biome];
+  const difficulty = getDifficulty(levelIndex);
+
+  // Init Grid
+  const noiseSeed = rng() * 10000;
+  const g: LayoutGrid = {
+    size,
+    grid: Array(size).fill(null).map(() => Array(size).fill(TileType.WATER)),
+    heightMap: Array(size).fill(null).map(() => Array(size).fill(WATER_LEVEL)),
+    rng,
+    noise: (x, z, scale) => Math.sin(x * scale + noiseSeed) * Math.cos(z * scale + noiseSeed),
+    baseGround,
+    featureGround,
+    difficulty,
+    holeLength: difficulty.holeLength * Math.min(MAX_LENGTH_SCALE, Math.sqrt(size / DEFAULT_MAP_SIZE)),
+  };
+  const { grid, heightMap } = g;
+
+  // 2. Terrain for the map type, including where the tee and hole go
+  const layout = LAYOUTS[mapType](g);
+  const { start, end } = layout;
+
+  // Repair: a straight fairway bridge from tee to hole, no wiggle
+  if (repair) {
+      connectPoints(g, start, end, TileType.FAIRWAY, 1, false);
+  }
+
+  // 3. Place Trees & Obstacles (Enhanced)
+  const propDensity = (layout.propDensity ?? 1) * difficulty.hazards;
   for (let x = 0; x < size; x++) {
       for (let z = 0; z < size; z++) {
           const type = grid[x][z];
           if (type === baseGround || type === featureGround) {
-              if (Math.random() < treeChance) {
-                  grid[x][z] = TileType.TREE;
-                  heightMap[x][z] = 1; 
-              } else if (Math.random() < obstacleChance) {
+              if (rng() < treeChance * propDensity) {
+                  setCell(g, x, z, TileType.TREE, 1);
+              } else if (rng() < obstacleChance * propDensity) {
                   // Place rocks
-                  grid[x][z] = TileType.OBSTACLE;
-                  heightMap[x][z] = 0.5;
+                  setCell(g, x, z, TileType.OBSTACLE, 0.5);
                   
                   // Chance to place a cluster of rocks
-                  if (Math.random() > 0.6) {
+                  if (rng() > 0.6) {
                       // Try neighbors
                       const neighbors = [[1,0], [-1,0], [0,1], [0,-1]];
                       for(let n of neighbors) {
                           const nx = x+n[0], nz = z+n[1];
                           if(nx>0 && nx<size && nz>0 && nz<size && grid[nx][nz] !== TileType.WATER && grid[nx][nz] !== TileType.FAIRWAY) {
-                              grid[nx][nz] = TileType.OBSTACLE;
-                              heightMap[nx][nz] = 0.4;
+                              setCell(g, nx, nz, TileType.OBSTACLE, 0.4);
                           }
                       }
                   }
@@ -164,94 +523,228 @@ export const generateLevel = (levelIndex: number): Level => {
       }
   }
 
-  // 5. Finalize Start/End
-  // Clear radius around start/end
-  const clearRadius = (cx: number, cz: number, r: number) => {
-      for(let i=-r; i<=r; i++) {
-          for(let j=-r; j<=r; j++) {
-             const tx = cx + i; const tz = cz + j;
-             if (tx >=0 && tx < size && tz >= 0 && tz < size) {
-                 if (grid[tx][tz] === TileType.TREE || grid[tx][tz] === TileType.OBSTACLE || grid[tx][tz] === TileType.WATER) {
-                     grid[tx][tz] = baseGround;
-                     heightMap[tx][tz] = 0;
-                 }
-             }
+  // 4. Finalize Start/End
+  clearRadius(g, start, 2);
+  clearRadius(g, end, 2);
+
+  // Putting green: a disc around the hole
+  const greenReach = Math.floor(difficulty.greenRadius + 0.3);
+  for (let x = end.x - greenReach; x <= end.x + greenReach; x++) {
+      for (let z = end.z - greenReach; z <= end.z + greenReach; z++) {
+          if (!inGrid(g, x, z)) continue;
+          if (Math.hypot(x - end.x, z - end.z) <= difficulty.greenRadius + 0.3 && grid[x][z] !== TileType.WATER) {
+              setCell(g, x, z, TileType.GREEN);
           }
       }
-  };
-  clearRadius(startX, startZ, 2);
-  clearRadius(endX, endZ, 2);
+  }
+  grid[start.x][start.z] = TileType.GREEN;
 
-  grid[startX][startZ] = TileType.GREEN;
-  grid[endX][endZ] = TileType.GREEN;
+  // 5. Contours, lifted by the layout's own elevation
+  const contour = createContourField(rng, start, end, difficulty, layout.elevation);
 
   // Flatten to Tile Array
   for (let x = 0; x < size; x++) {
       for (let z = 0; z < size; z++) {
-          tiles.push({
-              x,
-              z,
-              height: heightMap[x][z],
-              type: grid[x][z]
-          });
+          const type = grid[x][z];
+          const base = heightMap[x][z];
+
+          if (type === TileType.WATER) {
+              // Layouts work in water; the biome decides what the lakes are made of
+              tiles.push({ x, z, height: base, type: liquid });
+          } else if (type === TileType.TREE || type === TileType.OBSTACLE) {
+              // Props sit flat on the local ground level
+              tiles.push({ x, z, height: base + contour(x, z), type });
+          } else {
+              // Corners are sampled from one continuous field, so neighbours share edges
+              tiles.push({
+                  x,
+                  z,
+                  height: base + contour(x, z),
+                  type,
+                  corners: [
+                      base + contour(x - 0.5, z - 0.5),
+                      base + contour(x + 0.5, z - 0.5),
+                      base + contour(x + 0.5, z + 0.5),
+                      base + contour(x - 0.5, z + 0.5),
+                  ],
+              });
+          }
       }
   }
 
+  const startPosition = { x: start.x, y: contour(start.x, start.z) + 0.15, z: start.z }; // Lowered from 0.5 to prevent initial bounce
+  const holePosition = { x: end.x, y: contour(end.x, end.z), z: end.z };
+
   return {
     tiles,
-    startPosition: { x: startX, y: 0.15, z: startZ }, // Lowered from 0.5 to prevent initial bounce
-    holePosition: { x: endX, y: 0, z: endZ },
-    par: 4, 
+    startPosition,
+    holePosition,
+    par: layout.par ?? computePar(tiles, startPosition, holePosition),
+    levelIndex,
+    seed,
+    mapType,
+    biome,
+    code: encodeCourseCode(levelIndex, seed, options),
+    wind: generateWind(createRng(hashSeed(seed, levelIndex, WIND_STREAM)), biome),
+    entities: generateEntities(createRng(hashSeed(seed, levelIndex, ENTITY_STREAM, attempt)), tiles, start, end, difficulty),
   };
 };
 
-// Helper: The "Walker" to connect points
-function connectPoints(
-    grid: TileType[][], 
-    heightMap: number[][], 
-    p1: {x:number, z:number}, 
-    p2: {x:number, z:number}, 
-    type: TileType,
-    width: number
-) {
-    let currX = p1.x;
-    let currZ = p1.z;
-    const endX = p2.x;
-    const endZ = p2.z;
-    
-    let steps = 0;
-    const size = grid.length;
-    
-    while ((Math.abs(currX - endX) > 0 || Math.abs(currZ - endZ) > 0) && steps < 100) {
-        steps++;
-        const dx = endX - currX;
-        const dz = endZ - currZ;
-        
-        if (Math.abs(dx) > Math.abs(dz)) currX += Math.sign(dx);
-        else currZ += Math.sign(dz);
-        
-        // Random wiggle
-        if (Math.random() > 0.7) {
-             if (Math.random() > 0.5) currX += (Math.random() > 0.5 ? 1 : -1);
-             else currZ += (Math.random() > 0.5 ? 1 : -1);
-        }
-        
-        // Clamp
-        currX = Math.max(1, Math.min(size-2, currX));
-        currZ = Math.max(1, Math.min(size-2, currZ));
+// Helper: Seeded moving entities along the fairway. Easy holes rarely get any, the hardest
+// up to three. Blades, blocks and belts are set across or along the line of play.
+function generateEntities(rng: Rng, tiles: Tile[], start: Cell, end: Cell, difficulty: DifficultySettings): LevelEntity[] {
+    const count = Math.floor(rng() * difficulty.hazards * 2);
+    if (count === 0) return [];
 
-        // Paint
-        for(let i=-width; i<=width; i++) {
-            for(let j=-width; j<=width; j++) {
-                const tx = currX + i;
-                const tz = currZ + j;
-                if (tx >=0 && tx < size && tz >=0 && tz < size) {
-                    if (grid[tx][tz] === TileType.WATER || grid[tx][tz] !== TileType.GREEN) {
-                        grid[tx][tz] = type;
-                        heightMap[tx][tz] = 0;
-                    }
-                }
+    const tileGrid = getTileGrid(tiles);
+    const ground = (x: number, z: number) => {
+        const tile = getTileAtCell(tileGrid, x, z);
+        return tile ? getSurfaceHeight(tile, x, z) : 0;
+    };
+    const toHole = Math.atan2(end.z - start.z, end.x - start.x);
+    const across = { x: -Math.sin(toHole), z: Math.cos(toHole) };
+    const holeDist = (c: Cell) => Math.hypot(c.x - end.x, c.z - end.z);
+
+    const candidates = tiles.filter(t =>
+        t.type === TileType.FAIRWAY &&
+        Math.hypot(t.x - start.x, t.z - start.z) >= ENTITY_SPACING &&
+        holeDist(t) >= 3
+    );
+    const placeEntity = (type: LevelEntityType, cell: Cell): LevelEntity | null => {
+        const y = ground(cell.x, cell.z);
+        const period = 3 + rng() * 4;
+        const phase = rng() * Math.PI * 2;
+        switch (type) {
+            case 'WINDMILL': {
+                const armLength = 1.2;
+                // Tips sweep just above the turf, so a rolling ball has to time it
+                return { type, position: { x: cell.x, y: y + armLength + 0.05, z: cell.z }, facing: toHole + Math.PI / 2, blades: 4, armLength, period, phase };
             }
+            case 'SLIDING_BLOCK': {
+                const travel = { x: across.x * 3, y: 0, z: across.z * 3 };
+                return {
+                    type,
+                    position: { x: cell.x - travel.x / 2, y, z: cell.z - travel.z / 2 },
+                    size: { x: 0.8, y: 0.6, z: 0.8 },
+                    travel,
+                    period,
+                    phase,
+                };
+            }
+            case 'BUMPER':
+                return { type, position: { x: cell.x, y, z: cell.z }, radius: 0.3, armLength: 1.2, period, phase };
+            case 'CONVEYOR':
+                return createConveyor(rng, tileGrid, cell, toHole, ground);
+            case 'TELEPORTER': {
+                // The exit pad is somewhere closer to the hole
+                const exits = candidates.filter(c => holeDist(c) < holeDist(cell) - ENTITY_SPACING);
+                if (exits.length === 0) return null;
+                const exit = exits[randomInt(rng, 0, exits.length)];
+                return { type, position: { x: cell.x, y, z: cell.z }, exit: { x: exit.x, y: ground(exit.x, exit.z), z: exit.z }, radius: 0.45 };
+            }
+        }
+    };
+
+    const entities: LevelEntity[] = [];
+    const used: Cell[] = [];
+    for (let i = 0; i < count && candidates.length > 0; i++) {
+        const cell = candidates[randomInt(rng, 0, candidates.length)];
+        if (used.some(u => Math.hypot(u.x - cell.x, u.z - cell.z) < ENTITY_SPACING)) continue;
+        const entity = placeEntity(pickWeighted(rng, ENTITY_WEIGHTS), cell);
+        if (entity) {
+            entities.push(entity);
+            used.push(cell);
+            if (entity.type === 'TELEPORTER') used.push(entity.exit);
         }
     }
+    return entities;
+}
+
+// Helper: A three-tile belt along the grid axis nearest the line of play, usually running towards the hole
+function createConveyor(
+    rng: Rng,
+    tileGrid: TileGrid,
+    cell: Cell,
+    toHole: number,
+    ground: (x: number, z: number) => number
+): LevelEntity | null {
+    const alongX = Math.abs(Math.cos(toHole)) >= Math.abs(Math.sin(toHole));
+    const step = alongX ? { x: 1, z: 0 } : { x: 0, z: 1 };
+    const cells = [-1, 0, 1].map(k => ({ x: cell.x + step.x * k, z: cell.z + step.z * k }));
+    const belt = [TileType.FAIRWAY, TileType.ROUGH, TileType.GREEN];
+    if (!cells.every(c => belt.includes(getTileAtCell(tileGrid, c.x, c.z)?.type as TileType))) return null;
+
+    const towardHole = Math.sign(alongX ? Math.cos(toHole) : Math.sin(toHole)) || 1;
+    const speed = (2 + rng()) * (rng() < 0.7 ? towardHole : -towardHole);
+    return {
+        type: 'CONVEYOR',
+        position: { x: cell.x, y: ground(cell.x, cell.z), z: cell.z },
+        cells,
+        velocity: { x: step.x * speed, y: 0, z: step.z * speed },
+    };
+}
+
+// Helper: Seeded wind for a level. Some holes are calm, most have a breeze, a few gust hard.
+function generateWind(rng: Rng, biome: Biome): WindField {
+    const angle = rng() * Math.PI * 2;
+    const calm = rng() < 0.2;
+    const speed = calm ? 0 : BIOME_WIND[biome] * (0.3 + rng() * 1.2);
+    return {
+        base: { x: Math.cos(angle) * speed, y: 0, z: Math.sin(angle) * speed },
+        gustStrength: calm ? 0 : rng() * 0.6,
+        gustPeriod: 4 + rng() * 6,
+        gustPhase: rng() * Math.PI * 2,
+        heightScale: 3,
+    };
+}
+
+// Helper: Rolling terrain as one continuous height field.
+// A few seeded sine waves make the fairway roll; near the hole the field relaxes into
+// a gently tilted green with a little undulation so putts break, and around the tee
+// into a level box. A layout's `lift` (tiers, dunes) rolls with the fairway, so the
+// green and the tee flatten it out too.
+function createContourField(
+    rng: Rng,
+    tee: { x: number; z: number },
+    hole: { x: number; z: number },
+    { greenRadius, contour }: DifficultySettings,
+    lift: (x: number, z: number) => number = () => 0
+) {
+    const waves = [0, 1, 2].map(i => {
+        const angle = rng() * Math.PI * 2;
+        const freq = 0.12 + rng() * 0.12 + i * 0.05;
+        return { kx: Math.cos(angle) * freq, kz: Math.sin(angle) * freq, phase: rng() * Math.PI * 2 };
+    });
+    const tiltAngle = rng() * Math.PI * 2;
+    const tilt = GREEN_TILT * (0.5 + rng() * 0.5);
+    const undulationPhase = rng() * Math.PI * 2;
+
+    const rolling = (x: number, z: number) => {
+        let sum = 0;
+        waves.forEach(w => { sum += Math.sin(x * w.kx + z * w.kz + w.phase); });
+        return FAIRWAY_ROLL * contour * (0.5 + 0.5 * sum / waves.length) + lift(x, z);
+    };
+    const holeBase = rolling(hole.x, hole.z);
+    const teeBase = rolling(tee.x, tee.z);
+
+    return (x: number, z: number): number => {
+        const dx = x - hole.x;
+        const dz = z - hole.z;
+        const dist = Math.sqrt(dx * dx + dz * dz);
+
+        // 1 on the green, 0 beyond the fringe, smooth in between
+        const t = Math.max(0, Math.min(1, (greenRadius + 3 - dist) / 3));
+        const blend = t * t * (3 - 2 * t);
+
+        const green = holeBase
+            + tilt * (dx * Math.cos(tiltAngle) + dz * Math.sin(tiltAngle))
+            + 0.03 * Math.sin(x * 1.3 + undulationPhase) * Math.cos(z * 1.1 + undulationPhase);
+
+        const field = rolling(x, z) * (1 - blend) + green * blend;
+
+        // Level within TEE_FLAT_RADIUS of the start, eased out the same way
+        const s = Math.max(0, Math.min(1, (TEE_FLAT_RADIUS + TEE_BLEND - Math.hypot(x - tee.x, z - tee.z)) / TEE_BLEND));
+        const teeBlend = s * s * (3 - 2 * s);
+        return field * (1 - teeBlend) + teeBase * teeBlend;
+    };
 }
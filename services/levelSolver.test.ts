@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { Lie } from '../types';
+import { PHYSICS_CONFIG } from '../constants';
+import { generateLevel } from './levelGenerator';
+import { getTileGrid, getTileAt, simulateShot } from './physicsEngine';
+import { computeShot } from './shotModel';
+import { solveLevel } from './levelSolver';
+
+describe('solveLevel', () => {
+  it('finds shots that really hole out when played', () => {
+    const level = generateLevel(5, 8080);
+    const solution = solveLevel(level);
+    if (!solution) throw new Error('Generated hole has no solution');
+    expect(solution.strokes).toBe(solution.shots.length);
+
+    // Play the solution from the tee, each shot from where the last one stopped
+    const grid = getTileGrid(level.tiles);
+    let position = level.startPosition;
+    let lie: Lie = 'TEE';
+    let outcome = '';
+    for (const { club, powerRatio, heading, rest } of solution.shots) {
+      const shot = computeShot(club, powerRatio, Math.cos(heading), Math.sin(heading), undefined, lie);
+      const result = simulateShot(level, position, shot.velocity, PHYSICS_CONFIG, { spin: shot.spin });
+      expect(result.finalPosition).toEqual(rest);
+      position = result.finalPosition;
+      lie = getTileAt(grid, position)!.type;
+      outcome = result.outcome;
+    }
+    expect(outcome).toBe('HOLED');
+  });
+
+  it('gives up when the hole needs more strokes than allowed', () => {
+    const level = generateLevel(5, 8080);
+    expect(solveLevel(level, 1)).toBeNull();
+  });
+});
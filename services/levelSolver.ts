@@ -0,0 +1,134 @@
+import { ClubType, Level, Lie, TileType, Vector3 } from '../types';
+import { PHYSICS_CONFIG } from '../constants';
+import { calculateTrajectoryData, simulateShot, getTileGrid, getTileAt, ShotResult } from './physicsEngine';
+import { CLUB_STATS, computeShot, isClubAllowed } from './shotModel';
+
+// --- REACHABILITY SOLVER ---
+// Proves a hole can be played within a stroke limit: a beam search over club, power and
+// aim. Each swing is first flown with calculateTrajectoryData, which cheaply throws out
+// landings off the map or in a hazard; the landings nearest the hole are then played out
+// in full with simulateShot, entities and all, so a ball that rolls on into water, off
+// the edge or is knocked away doesn't count. Near the hole the search putts too, and the
+// hole is only solved once a shot actually drops. Lies count, dispersion doesn't.
+
+export const MAX_SOLVER_STROKES = 6;
+
+const CLUBS = [ClubType.DRIVER, ClubType.IRON, ClubType.WEDGE];
+const POWERS = [0.3, 0.6, 1];
+const HEADINGS = 16; // Even spread around the compass, plus straight at the hole
+const BEAM_WIDTH = 8; // Lies kept per stroke, closest to the hole first
+const ROLLOUTS = 32; // Swings per stroke played out in full, best landings first
+const FLIGHT_STEPS = 120;
+const PUTT_RANGE = 8; // Tiles; from here the search also putts
+const PUTT_POWERS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+const PUTT_AIMS = [0, -0.08, 0.08]; // Radians either side of the cup, to play the break
+
+const UNPLAYABLE = [TileType.WATER, TileType.LAVA, TileType.TREE, TileType.OBSTACLE, TileType.EMPTY];
+
+export interface SolverShot {
+  club: ClubType;
+  powerRatio: number;
+  heading: number; // Radians in the ground plane, 0 = +x
+  rest: Vector3; // Where the ball stopped, or the cup
+}
+
+export interface SolverResult {
+  strokes: number;
+  shots: SolverShot[]; // Every stroke, the one that drops last
+}
+
+interface SearchNode {
+  position: Vector3;
+  lie: Lie;
+  shots: SolverShot[];
+}
+
+// A stroke to try from a node, and how close its flight came down to the hole
+interface Candidate {
+  node: SearchNode;
+  club: ClubType;
+  powerRatio: number;
+  heading: number;
+  landingDistance: number;
+}
+
+const distanceToHole = (pos: Vector3, hole: Vector3) => Math.hypot(pos.x - hole.x, pos.z - hole.z);
+
+export const solveLevel = (level: Level, maxStrokes = MAX_SOLVER_STROKES): SolverResult | null => {
+  const tileGrid = getTileGrid(level.tiles);
+  const hole = level.holePosition;
+  const screening = { wind: level.wind, time: 0 }; // Entities are left to the full play-out
+  const visited = new Set<string>();
+
+  const play = ({ node, club, powerRatio, heading }: Candidate): ShotResult => {
+    const shot = computeShot(club, powerRatio, Math.cos(heading), Math.sin(heading), undefined, node.lie);
+    return simulateShot(level, node.position, shot.velocity, PHYSICS_CONFIG, { spin: shot.spin });
+  };
+
+  let frontier: SearchNode[] = [{ position: level.startPosition, lie: 'TEE', shots: [] }];
+  visited.add(`${Math.round(level.startPosition.x)},${Math.round(level.startPosition.z)}`);
+
+  for (let stroke = 1; stroke <= maxStrokes; stroke++) {
+    const putts: Candidate[] = [];
+    const swings: Candidate[] = [];
+    const landed = new Set<string>();
+
+    for (const node of frontier) {
+      const { position, lie } = node;
+      const toHole = Math.atan2(hole.z - position.z, hole.x - position.x);
+      const distance = distanceToHole(position, hole);
+
+      if (distance <= PUTT_RANGE) {
+        for (const powerRatio of PUTT_POWERS) {
+          for (const aim of PUTT_AIMS) {
+            putts.push({ node, club: ClubType.PUTTER, powerRatio, heading: toHole + aim, landingDistance: distance });
+          }
+        }
+      }
+
+      const headings = [toHole, ...Array.from({ length: HEADINGS }, (_, i) => toHole + (i + 1) * (2 * Math.PI / (HEADINGS + 1)))];
+      for (const club of CLUBS) {
+        if (!isClubAllowed(club, lie)) continue;
+        for (const powerRatio of POWERS) {
+          for (const heading of headings) {
+            const shot = computeShot(club, powerRatio, Math.cos(heading), Math.sin(heading), undefined, lie);
+            const flight = calculateTrajectoryData(
+              position, shot.velocity, PHYSICS_CONFIG, level.tiles, Math.max(FLIGHT_STEPS, CLUB_STATS[club].guideLines), shot.spin, screening
+            );
+            const landing = flight.points[flight.points.length - 1];
+            const tile = getTileAt(tileGrid, landing);
+            if (!tile || UNPLAYABLE.includes(tile.type)) continue;
+
+            const key = `${tile.x},${tile.z}`;
+            if (landed.has(key)) continue;
+            landed.add(key);
+            swings.push({ node, club, powerRatio, heading, landingDistance: distanceToHole(landing, hole) });
+          }
+        }
+      }
+    }
+
+    swings.sort((a, b) => a.landingDistance - b.landingDistance);
+    const next: SearchNode[] = [];
+    for (const candidate of [...putts, ...swings.slice(0, ROLLOUTS)]) {
+      const result = play(candidate);
+      const { club, powerRatio, heading } = candidate;
+      const shots = [...candidate.node.shots, { club, powerRatio, heading, rest: result.finalPosition }];
+      if (result.outcome === 'HOLED') return { strokes: stroke, shots };
+      if (result.outcome !== 'STOPPED') continue;
+
+      const tile = getTileAt(tileGrid, result.finalPosition);
+      if (!tile || UNPLAYABLE.includes(tile.type)) continue;
+      const key = `${tile.x},${tile.z}`;
+      if (visited.has(key)) continue;
+      visited.add(key);
+      next.push({ position: result.finalPosition, lie: tile.type, shots });
+    }
+
+    if (next.length === 0) return null;
+    next.sort((a, b) => distanceToHole(a.position, hole) - distanceToHole(b.position, hole));
+    frontier = next.slice(0, BEAM_WIDTH);
+  }
+
+  return null;
+};
@@ -0,0 +1,57 @@
+import { BallState, Player, PlayerHoleState, Vector3 } from '../types';
+import { PHYSICS_CONSTANTS } from '../constants';
+
+export const MAX_PLAYERS = 4;
+
+const PLAYER_COLORS = ['#ffffff', '#f97316', '#38bdf8', '#e879f9'];
+
+export const createPlayers = (count: number): Player[] =>
+  Array.from({ length: Math.max(1, Math.min(MAX_PLAYERS, count)) }, (_, i) => ({
+    id: i,
+    name: `Player ${i + 1}`,
+    color: PLAYER_COLORS[i],
+  }));
+
+export const createBallAt = (position: Vector3): BallState => ({
+  position,
+  velocity: { x: 0, y: 0, z: 0 },
+  spin: { x: 0, y: 0, z: 0 },
+  isMoving: false,
+  inHole: false,
+  lastStablePosition: position,
+});
+
+// Everyone starts the hole on the tee
+export const createHoleStates = (players: Player[], tee: Vector3): PlayerHoleState[] =>
+  players.map(() => ({
+    ball: createBallAt(tee),
+    strokes: 0,
+    penalties: 0,
+    holed: false,
+  }));
+
+// Golf turn order: whoever is farthest from the hole plays next.
+// Ties (e.g. everyone on the tee) go to the lower player number. Returns -1 once all are holed.
+export const getNextPlayerIndex = (states: PlayerHoleState[], hole: Vector3): number => {
+  let next = -1;
+  let farthest = -1;
+  states.forEach((state, i) => {
+    if (state.holed) return;
+    const dist = Math.hypot(state.ball.position.x - hole.x, state.ball.position.z - hole.z);
+    if (dist > farthest + 1e-6) {
+      farthest = dist;
+      next = i;
+    }
+  });
+  return next;
+};
+
+// Resting balls the shooter can hit. Holed balls are out of play, and balls sharing the
+// shooter's spot (everyone on the tee) are treated as lifted rather than knocked away.
+export const getObstacleBalls = (states: PlayerHoleState[], shooter: number): Vector3[] => {
+  const from = states[shooter].ball.position;
+  return states
+    .filter((state, i) => i !== shooter && !state.holed)
+    .map(state => state.ball.position)
+    .filter(pos => Math.hypot(pos.x - from.x, pos.y - from.y, pos.z - from.z) > PHYSICS_CONSTANTS.BALL_RADIUS * 2);
+};
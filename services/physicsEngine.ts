@@ -1,5 +1,15 @@
 
-import { Vector3, PhysicsConfig, Tile, TileType, TrajectoryData } from '../types';
+import { Vector3, PhysicsConfig, Tile, TileType, TrajectoryData, Level, WindField, LevelEntity } from '../types';
+import { PHYSICS_CONSTANTS } from '../constants';
+import { getEntityPose, getBlades, BLADE_WIDTH, BUMPER_HEIGHT, TELEPORTER_LIFT } from './entities';
+
+// Simulation runs at a fixed rate so a shot lands in the same place on every machine
+export const FIXED_TIMESTEP = 1 / 240;
+const MAX_SHOT_TIME = 30; // s, safety net for balls that never settle
+const VOID_DEPTH = -10;
+const HOLE_RADIUS = 0.3;
+const HOLE_CAPTURE_SPEED = 5;
+const SKID_RATE = 20; // How fast rolling contact bleeds off slip (1/s)
 
 export const addVectors = (v1: Vector3, v2: Vector3): Vector3 => ({
   x: v1.x + v2.x,
@@ -20,6 +30,95 @@ export const normalize = (v: Vector3): Vector3 => {
   return m === 0 ? { x: 0, y: 0, z: 0 } : scaleVector(v, 1 / m);
 };
 
+export const dot = (v1: Vector3, v2: Vector3): number => v1.x * v2.x + v1.y * v2.y + v1.z * v2.z;
+
+export const cross = (v1: Vector3, v2: Vector3): Vector3 => ({
+  x: v1.y * v2.z - v1.z * v2.y,
+  y: v1.z * v2.x - v1.x * v2.z,
+  z: v1.x * v2.y - v1.y * v2.x,
+});
+
+const ZERO: Vector3 = { x: 0, y: 0, z: 0 };
+
+const UP: Vector3 = { x: 0, y: 1, z: 0 };
+
+// Local (u, v) in [0, 1] across the tile footprint
+const tileUV = (tile: Tile, x: number, z: number) => ({
+  u: Math.max(0, Math.min(1, x - tile.x + 0.5)),
+  v: Math.max(0, Math.min(1, z - tile.z + 0.5)),
+});
+
+// Height of the tile surface at world (x, z), bilinear between the corner heights
+export const getSurfaceHeight = (tile: Tile, x: number, z: number): number => {
+  if (!tile.corners) return tile.height;
+  const { u, v } = tileUV(tile, x, z);
+  const [h1, h2, h3, h4] = tile.corners;
+  return h1 * (1 - u) * (1 - v) + h2 * u * (1 - v) + h3 * u * v + h4 * (1 - u) * v;
+};
+
+// Unit normal of the bilinear patch at world (x, z)
+export const getSurfaceNormal = (tile: Tile, x: number, z: number): Vector3 => {
+  if (!tile.corners) return UP;
+  const { u, v } = tileUV(tile, x, z);
+  const [h1, h2, h3, h4] = tile.corners;
+  const dhdx = (h2 - h1) * (1 - v) + (h3 - h4) * v;
+  const dhdz = (h4 - h1) * (1 - u) + (h3 - h2) * u;
+  return normalize({ x: -dhdx, y: 1, z: -dhdz });
+};
+
+// Physics lookups go through a dense grid over the tiles' bounding box: `cells` holds
+// each cell's index into `tiles` plus one (0 = no tile), row by row along x.
+// Built once per tile array and reused.
+export interface TileGrid {
+  tiles: Tile[];
+  minX: number;
+  minZ: number;
+  width: number;
+  depth: number;
+  cells: Int32Array;
+}
+
+const tileGridCache = new WeakMap<Tile[], TileGrid>();
+
+const buildTileGrid = (tiles: Tile[]): TileGrid => {
+  if (tiles.length === 0) return { tiles, minX: 0, minZ: 0, width: 0, depth: 0, cells: new Int32Array(0) };
+
+  let minX = Infinity, minZ = Infinity, maxX = -Infinity, maxZ = -Infinity;
+  for (const t of tiles) {
+    minX = Math.min(minX, t.x);
+    minZ = Math.min(minZ, t.z);
+    maxX = Math.max(maxX, t.x);
+    maxZ = Math.max(maxZ, t.z);
+  }
+  const width = maxX - minX + 1;
+  const depth = maxZ - minZ + 1;
+  const cells = new Int32Array(width * depth);
+  // Later tiles win, as they would in a keyed map
+  tiles.forEach((t, i) => { cells[(t.z - minZ) * width + (t.x - minX)] = i + 1; });
+  return { tiles, minX, minZ, width, depth, cells };
+};
+
+export const getTileGrid = (tiles: Tile[]): TileGrid => {
+  let grid = tileGridCache.get(tiles);
+  if (!grid) {
+    grid = buildTileGrid(tiles);
+    tileGridCache.set(tiles, grid);
+  }
+  return grid;
+};
+
+// Integer cell lookup; undefined off the grid or where there's no tile
+export const getTileAtCell = (grid: TileGrid, x: number, z: number): Tile | undefined => {
+  const i = x - grid.minX;
+  const j = z - grid.minZ;
+  if (i < 0 || j < 0 || i >= grid.width || j >= grid.depth) return undefined;
+  const index = grid.cells[j * grid.width + i];
+  return index === 0 ? undefined : grid.tiles[index - 1];
+};
+
+export const getTileAt = (grid: TileGrid, pos: Vector3): Tile | undefined =>
+  getTileAtCell(grid, Math.round(pos.x), Math.round(pos.z));
+
 export const getFrictionForTile = (tileType: TileType | undefined, config: PhysicsConfig): number => {
   switch (tileType) {
     case TileType.SAND: return config.frictionSand;
@@ -27,29 +126,252 @@ export const getFrictionForTile = (tileType: TileType | undefined, config: Physi
     case TileType.ROUGH: return config.frictionRough;
     case TileType.GRAVEL: return config.frictionGravel;
     case TileType.FAIRWAY: return config.frictionGround;
+    case TileType.ICE: return config.frictionIce;
+    case TileType.SNOW: return config.frictionSnow;
+    case TileType.MUD: return config.frictionMud;
     case TileType.WATER: return 0.5; 
     default: return config.frictionGround;
   }
 };
 
+// Bounciness of a landing. Ice skips low, snow and mud swallow the impact.
+export const getRestitutionForTile = (tileType: TileType | undefined, config: PhysicsConfig): number => {
+  switch (tileType) {
+    case TileType.ICE: return config.restitution * 0.5;
+    case TileType.SNOW: return config.restitution * 0.15;
+    case TileType.MUD: return 0;
+    default: return config.restitution;
+  }
+};
+
+// How far a resting ball settles below the surface
+export const getSinkDepthForTile = (tileType: TileType | undefined): number =>
+  tileType === TileType.SNOW ? 0.08 : 0;
+
+// Surfaces that end the shot with a penalty on contact
+export const HAZARD_TILES = [TileType.WATER, TileType.LAVA];
+
+// --- WIND ---
+
+// What the air is doing for a step: the level's wind field and the time it's sampled at
+export interface PhysicsEnvironment {
+  wind?: WindField;
+  time: number; // s on the level clock
+  balls?: Vector3[]; // Other players' balls, at rest on the course
+  entities?: LevelEntity[]; // Posed at `time`
+}
+
+// Wind velocity at a point. Gusts scale and slightly swing the base wind;
+// strength ramps up from nothing at ground level to full at heightScale.
+export const sampleWind = (wind: WindField, pos: Vector3, groundHeight: number, time: number): Vector3 => {
+  const altitude = Math.max(0, pos.y - groundHeight);
+  const heightFactor = Math.min(1, altitude / wind.heightScale);
+  if (heightFactor === 0) return ZERO;
+
+  const w = (2 * Math.PI) / wind.gustPeriod;
+  const gust = 1 + wind.gustStrength * (0.6 * Math.sin(w * time + wind.gustPhase) + 0.4 * Math.sin(2.3 * w * time + 1.7 * wind.gustPhase));
+  const swing = wind.gustStrength * 0.25 * Math.sin(0.7 * w * time + 2.1 * wind.gustPhase);
+
+  const cos = Math.cos(swing);
+  const sin = Math.sin(swing);
+  const scale = Math.max(0, gust) * heightFactor;
+  return {
+    x: (wind.base.x * cos - wind.base.z * sin) * scale,
+    y: 0,
+    z: (wind.base.x * sin + wind.base.z * cos) * scale,
+  };
+};
+
+// Full-strength wind (well above the ground) at a given time, for HUDs
+export const getWindAloft = (wind: WindField, time: number): Vector3 =>
+  sampleWind(wind, { x: 0, y: wind.heightScale, z: 0 }, 0, time);
+
+// How strongly the surface grabs a spinning ball (0 = skids freely, 1 = kills all slip on impact)
+export const getSpinGripForTile = (tileType: TileType | undefined): number => {
+  switch (tileType) {
+    case TileType.GREEN: return 0.9;
+    case TileType.SAND: return 0.95;
+    case TileType.FAIRWAY: return 0.7;
+    case TileType.ROUGH: return 0.3; // Grass between face and ball: flyers
+    case TileType.GRAVEL: return 0.5;
+    case TileType.ICE: return 0.1;
+    case TileType.SNOW: return 0.8;
+    case TileType.MUD: return 1;
+    default: return 0.6;
+  }
+};
+
+// Spin of a ball rolling without slip at this velocity
+export const getRollingSpin = (vel: Vector3, normal: Vector3 = UP): Vector3 =>
+  scaleVector(cross(normal, vel), 1 / PHYSICS_CONSTANTS.BALL_RADIUS);
+
+// Friction at the contact patch. Slip is the contact point's velocity against the ground;
+// for a solid sphere removing slip takes 2/7 from the linear velocity and 5/7 from the spin.
+const applyContactFriction = (vel: Vector3, spin: Vector3, normal: Vector3, grip: number) => {
+  const r = scaleVector(normal, -PHYSICS_CONSTANTS.BALL_RADIUS);
+  const tangential = addVectors(vel, scaleVector(normal, -dot(vel, normal)));
+  const slip = addVectors(tangential, cross(spin, r));
+
+  const newVel = addVectors(vel, scaleVector(slip, -(2 / 7) * grip));
+  const r2 = PHYSICS_CONSTANTS.BALL_RADIUS * PHYSICS_CONSTANTS.BALL_RADIUS;
+  const newSpin = addVectors(spin, scaleVector(cross(r, slip), -(5 / 7) * grip / r2));
+  return { vel: newVel, spin: newSpin };
+};
+
+// --- LEVEL ENTITIES ---
+
+const BLADE_RESTITUTION = 0.5;
+const BLOCK_RESTITUTION = 0.5;
+const BUMPER_RESTITUTION = 0.9;
+const BUMPER_KICK = 3; // m/s the post adds on every hit
+
+// Reflect the ball off a surface that is itself moving. Only the velocity relative to
+// the surface bounces, so a blade swinging into the ball knocks it along.
+const bounceOff = (vel: Vector3, normal: Vector3, surfaceVel: Vector3, restitution: number, kick = 0): Vector3 => {
+  const approach = dot(addVectors(vel, scaleVector(surfaceVel, -1)), normal);
+  if (approach >= 0) return vel;
+  return addVectors(vel, scaleVector(normal, -(1 + restitution) * approach + kick));
+};
+
+// Push the ball out of a collider whose nearest point to it is `closest`, `reach` thick
+const collideWithPoint = (
+  pos: Vector3,
+  vel: Vector3,
+  closest: Vector3,
+  reach: number,
+  surfaceVel: Vector3,
+  restitution: number,
+  kick = 0,
+): { pos: Vector3; vel: Vector3 } | null => {
+  const minDist = reach + PHYSICS_CONSTANTS.BALL_RADIUS;
+  const offset = addVectors(pos, scaleVector(closest, -1));
+  const distSq = dot(offset, offset);
+  if (distSq >= minDist * minDist) return null;
+
+  const dist = Math.sqrt(distSq);
+  const n = dist > 0 ? scaleVector(offset, 1 / dist) : UP;
+  return {
+    pos: addVectors(pos, scaleVector(n, minDist - dist + 0.001)),
+    vel: bounceOff(vel, n, surfaceVel, restitution, kick),
+  };
+};
+
+// Blades, blocks and bumpers, each at its pose for `time`
+const collideWithEntities = (pos: Vector3, vel: Vector3, entities: LevelEntity[], time: number) => {
+  let state = { pos, vel };
+  const apply = (hit: { pos: Vector3; vel: Vector3 } | null) => { if (hit) state = hit; };
+
+  for (const entity of entities) {
+    const pose = getEntityPose(entity, time);
+    if (entity.type === 'WINDMILL') {
+      const hub = pose.position;
+      for (const blade of getBlades(entity, pose.angle)) {
+        const along = Math.max(0, Math.min(entity.armLength, dot(addVectors(state.pos, scaleVector(hub, -1)), blade.dir)));
+        const closest = addVectors(hub, scaleVector(blade.dir, along));
+        apply(collideWithPoint(state.pos, state.vel, closest, BLADE_WIDTH, scaleVector(blade.sweep, along), BLADE_RESTITUTION));
+      }
+    } else if (entity.type === 'SLIDING_BLOCK') {
+      const { x, y, z } = pose.position;
+      const half = scaleVector(entity.size, 0.5);
+      const min = { x: x - half.x, y, z: z - half.z };
+      const max = { x: x + half.x, y: y + entity.size.y, z: z + half.z };
+      const p = state.pos;
+      const inside = p.x > min.x && p.x < max.x && p.y > min.y && p.y < max.y && p.z > min.z && p.z < max.z;
+      if (inside) {
+        // Tunnelled in: leave through the nearest face
+        const exits = [
+          { n: { x: -1, y: 0, z: 0 }, depth: p.x - min.x }, { n: { x: 1, y: 0, z: 0 }, depth: max.x - p.x },
+          { n: { x: 0, y: 0, z: -1 }, depth: p.z - min.z }, { n: { x: 0, y: 0, z: 1 }, depth: max.z - p.z },
+          { n: UP, depth: max.y - p.y },
+        ];
+        const exit = exits.reduce((a, b) => (b.depth < a.depth ? b : a));
+        state = {
+          pos: addVectors(p, scaleVector(exit.n, exit.depth + PHYSICS_CONSTANTS.BALL_RADIUS + 0.001)),
+          vel: bounceOff(state.vel, exit.n, pose.velocity, BLOCK_RESTITUTION),
+        };
+      } else {
+        const closest = {
+          x: Math.max(min.x, Math.min(max.x, p.x)),
+          y: Math.max(min.y, Math.min(max.y, p.y)),
+          z: Math.max(min.z, Math.min(max.z, p.z)),
+        };
+        apply(collideWithPoint(p, state.vel, closest, 0, pose.velocity, BLOCK_RESTITUTION));
+      }
+    } else if (entity.type === 'BUMPER') {
+      const post = pose.position;
+      if (state.pos.y > post.y + BUMPER_HEIGHT + PHYSICS_CONSTANTS.BALL_RADIUS) continue;
+      const closest = { x: post.x, y: state.pos.y, z: post.z };
+      apply(collideWithPoint(state.pos, state.vel, closest, entity.radius, pose.velocity, BUMPER_RESTITUTION, BUMPER_KICK));
+    }
+  }
+  return state;
+};
+
+// Belt velocity under a ball resting on a conveyor tile
+const getConveyorVelocity = (entities: LevelEntity[], tile: Tile, time: number): Vector3 => {
+  for (const entity of entities) {
+    if (entity.type === 'CONVEYOR' && entity.cells.some(c => c.x === tile.x && c.z === tile.z)) {
+      return getEntityPose(entity, time).velocity;
+    }
+  }
+  return ZERO;
+};
+
+// A ball on either pad of a teleporter comes out beside the other one, still rolling the
+// same way. It lands clear of the far pad so it doesn't bounce straight back.
+const teleport = (pos: Vector3, vel: Vector3, entities: LevelEntity[], tileGrid: TileGrid): Vector3 | null => {
+  for (const entity of entities) {
+    if (entity.type !== 'TELEPORTER') continue;
+    for (const [from, to] of [[entity.position, entity.exit], [entity.exit, entity.position]]) {
+      if (Math.hypot(pos.x - from.x, pos.z - from.z) >= entity.radius || pos.y - from.y > TELEPORTER_LIFT) continue;
+
+      const speed = Math.hypot(vel.x, vel.z);
+      const heading = speed > 0.1
+        ? { x: vel.x / speed, z: vel.z / speed }
+        : normalize({ x: to.x - from.x, y: 0, z: to.z - from.z });
+      const clear = entity.radius + PHYSICS_CONSTANTS.BALL_RADIUS + 0.05;
+      const out = { x: to.x + heading.x * clear, y: to.y, z: to.z + heading.z * clear };
+      const tile = getTileAt(tileGrid, out);
+      return { ...out, y: tile ? getSurfaceHeight(tile, out.x, out.z) : to.y };
+    }
+  }
+  return null;
+};
+
 export const calculateNextState = (
   pos: Vector3,
   vel: Vector3,
   dt: number,
   config: PhysicsConfig,
-  tileMap: Map<string, Tile>,
-): { pos: Vector3; vel: Vector3; collision?: string } => {
+  tileGrid: TileGrid,
+  spin: Vector3 = ZERO,
+  environment?: PhysicsEnvironment,
+): { pos: Vector3; vel: Vector3; spin: Vector3; collision?: string } => {
   
-  // 1. Apply Gravity and Drag
+  // 1. Apply Gravity, Drag and Magnus lift
   const forces: Vector3 = { x: 0, y: -config.gravity, z: 0 };
 
-  forces.x -= vel.x * config.dragAir;
-  forces.y -= vel.y * config.dragAir;
-  forces.z -= vel.z * config.dragAir;
+  // Drag acts on the velocity relative to the moving air
+  let airVel = ZERO;
+  if (environment?.wind) {
+    const groundTile = getTileAt(tileGrid, pos);
+    const groundHeight = groundTile ? getSurfaceHeight(groundTile, pos.x, pos.z) : VOID_DEPTH;
+    airVel = sampleWind(environment.wind, pos, groundHeight, environment.time);
+  }
+
+  forces.x -= (vel.x - airVel.x) * config.dragAir;
+  forces.y -= (vel.y - airVel.y) * config.dragAir;
+  forces.z -= (vel.z - airVel.z) * config.dragAir;
+
+  const magnus = scaleVector(cross(spin, vel), config.magnusCoefficient);
+  forces.x += magnus.x;
+  forces.y += magnus.y;
+  forces.z += magnus.z;
 
   // Integration
   let newVel = addVectors(vel, scaleVector(forces, dt));
   let newPos = addVectors(pos, scaleVector(newVel, dt));
+  let newSpin = scaleVector(spin, Math.max(0, 1 - config.spinDecay * dt));
 
   // 2. Object Collision (Trees/Obstacles)
   const checkRadius = 2;
@@ -58,12 +380,11 @@ export const calculateNextState = (
 
   for (let i = -checkRadius; i <= checkRadius; i++) {
     for (let j = -checkRadius; j <= checkRadius; j++) {
-       const key = `${cx + i},${cz + j}`;
-       const obs = tileMap.get(key);
-       
+       const obs = getTileAtCell(tileGrid, cx + i, cz + j);
+
        if (obs && (obs.type === TileType.TREE || obs.type === TileType.OBSTACLE)) {
           const colliderRadius = obs.type === TileType.TREE ? 0.35 : 0.45; 
-          const ballRadius = 0.15;
+          const ballRadius = PHYSICS_CONSTANTS.BALL_RADIUS;
           const minDist = colliderRadius + ballRadius;
 
           // Only collide if ball is low enough (trunk collision)
@@ -97,41 +418,103 @@ export const calculateNextState = (
     }
   }
 
+  // 2b. Ball-Ball Collision
+  // Resting balls act as fixed colliders: under the rules a ball at rest that is
+  // moved by another is replaced, so only the moving ball's path changes.
+  if (environment?.balls) {
+    const minDist = PHYSICS_CONSTANTS.BALL_RADIUS * 2;
+    for (const other of environment.balls) {
+      const dx = newPos.x - other.x;
+      const dy = newPos.y - other.y;
+      const dz = newPos.z - other.z;
+      const distSq = dx*dx + dy*dy + dz*dz;
+      if (distSq >= minDist * minDist) continue;
+
+      const dist = Math.sqrt(distSq);
+      const n = dist > 0 ? { x: dx / dist, y: dy / dist, z: dz / dist } : { x: 1, y: 0, z: 0 };
+      newPos = addVectors(newPos, scaleVector(n, minDist - dist + 0.001));
+
+      const approach = dot(newVel, n);
+      if (approach < 0) {
+        const restitution = 0.9;
+        newVel = addVectors(newVel, scaleVector(n, -(1 + restitution) * approach));
+      }
+    }
+  }
+
+  // 2c. Moving entities, posed at the end of the step. A step longer than FIXED_TIMESTEP
+  // (the aim preview's) is swept in FIXED_TIMESTEP slices, each posed at its own time, so
+  // the ball can't jump a blade between samples; the first slice that hits ends the step.
+  const entities = environment?.entities;
+  const entityTime = (environment?.time ?? 0) + dt;
+  if (entities?.length) {
+    const slices = Math.max(1, Math.ceil(dt / FIXED_TIMESTEP - 1e-9));
+    const travel = addVectors(newPos, scaleVector(pos, -1));
+    for (let k = 1; k <= slices; k++) {
+      const at = k === slices ? newPos : addVectors(pos, scaleVector(travel, k / slices));
+      const hit = collideWithEntities(at, newVel, entities, entityTime - dt + dt * k / slices);
+      if (k === slices || hit.pos !== at || hit.vel !== newVel) {
+        newPos = hit.pos;
+        newVel = hit.vel;
+        break;
+      }
+    }
+  }
+
   // 3. Ground/Terrain Interaction
-  const finalTile = tileMap.get(`${Math.round(newPos.x)},${Math.round(newPos.z)}`);
+  const finalTile = getTileAt(tileGrid, newPos);
 
-  const floorHeight = finalTile ? finalTile.height : -10;
+  const floorHeight = finalTile
+      ? getSurfaceHeight(finalTile, newPos.x, newPos.z) - getSinkDepthForTile(finalTile.type)
+      : -10;
 
   if (newPos.y <= floorHeight) {
       newPos.y = floorHeight;
 
-      if (finalTile?.type === TileType.WATER) {
-          return { pos: newPos, vel: { x:0, y:0, z:0 }, collision: 'WATER' };
+      if (finalTile && HAZARD_TILES.includes(finalTile.type)) {
+          return { pos: newPos, vel: { x:0, y:0, z:0 }, spin: ZERO, collision: finalTile.type };
       }
 
-      // Vertical Bounce
-      if (Math.abs(newVel.y) > 0.5) {
-          newVel.y = -newVel.y * config.restitution;
-      } else {
-          newVel.y = 0;
+      const normal = finalTile ? getSurfaceNormal(finalTile, newPos.x, newPos.z) : UP;
+      const normalSpeed = dot(newVel, normal);
+
+      // Bounce off the real surface normal
+      const bounced = normalSpeed < -0.5;
+      if (bounced && finalTile?.type === TileType.MUD) {
+          // Plugged: the ball buries itself where it lands
+          return { pos: newPos, vel: ZERO, spin: ZERO };
+      }
+      if (bounced) {
+          newVel = addVectors(newVel, scaleVector(normal, -(1 + getRestitutionForTile(finalTile?.type, config)) * normalSpeed));
+      } else if (normalSpeed < 0) {
+          // Rolling: keep the ball in the surface plane. The gravity integrated above
+          // survives only as its downhill component, which is what makes putts break.
+          newVel = addVectors(newVel, scaleVector(normal, -normalSpeed));
       }
 
-      // Ground Friction
-      if (newVel.y === 0) {
+      // Spin meets the turf: a full grab on impact, gradual skid while rolling.
+      // Backspin is what makes a wedge check up; topspin releases it forward.
+      const tileGrip = getSpinGripForTile(finalTile?.type);
+      const grip = bounced ? tileGrip : tileGrip * Math.min(1, SKID_RATE * dt);
+      const contact = applyContactFriction(newVel, newSpin, normal, grip);
+      newVel = contact.vel;
+      newSpin = contact.spin;
+
+      // Ground Friction (scaled by the normal force on a slope), against the belt on a conveyor
+      if (!bounced) {
           const mu = getFrictionForTile(finalTile?.type, config);
-          const frictionMag = mu * config.gravity * dt;
+          const frictionMag = mu * config.gravity * normal.y * dt;
+          const belt = entities?.length && finalTile ? getConveyorVelocity(entities, finalTile, entityTime) : ZERO;
+          const slide = addVectors(newVel, scaleVector(belt, -1));
           
-          const hVel = { x: newVel.x, y: 0, z: newVel.z };
-          const speed = magnitude(hVel);
+          const speed = magnitude(slide);
 
           if (speed > 0) {
               if (speed <= frictionMag) {
-                  newVel.x = 0;
-                  newVel.z = 0;
+                  newVel = belt;
+                  newSpin = ZERO;
               } else {
-                  const factor = (speed - frictionMag) / speed;
-                  newVel.x *= factor;
-                  newVel.z *= factor;
+                  newVel = addVectors(belt, scaleVector(slide, (speed - frictionMag) / speed));
               }
           }
       } else {
@@ -144,7 +527,13 @@ export const calculateNextState = (
       }
   }
 
-  return { pos: newPos, vel: newVel };
+  // 4. Teleporter pads
+  if (entities?.length) {
+      const exit = teleport(newPos, newVel, entities, tileGrid);
+      if (exit) newPos = exit;
+  }
+
+  return { pos: newPos, vel: newVel, spin: newSpin };
 };
 
 export const predictTrajectory = (
@@ -153,24 +542,26 @@ export const predictTrajectory = (
   config: PhysicsConfig,
   levelTiles: Tile[], 
   steps: number = 100, 
-  dt: number = 0.05
+  dt: number = 0.05,
+  startSpin: Vector3 = ZERO,
+  environment?: PhysicsEnvironment
 ): Vector3[] => {
-  // Optimization: Build map once here for prediction.
-  const tileMap = new Map<string, Tile>();
-  levelTiles.forEach(t => tileMap.set(`${t.x},${t.z}`, t));
+  const tileGrid = getTileGrid(levelTiles);
 
   const path: Vector3[] = [];
   let currentPos = startPos;
   let currentVel = startVel;
+  let currentSpin = startSpin;
 
   path.push(currentPos);
 
   for (let i = 0; i < steps; i++) {
-    const { pos, vel } = calculateNextState(currentPos, currentVel, dt, config, tileMap);
+    const stepEnvironment = environment && { ...environment, time: environment.time + i * dt };
+    const { pos, vel, spin } = calculateNextState(currentPos, currentVel, dt, config, tileGrid, currentSpin, stepEnvironment);
     
     // Stop prediction check
-    const currentTile = tileMap.get(`${Math.round(currentPos.x)},${Math.round(currentPos.z)}`);
-    const floor = currentTile?.height || 0;
+    const currentTile = getTileAt(tileGrid, currentPos);
+    const floor = currentTile ? getSurfaceHeight(currentTile, currentPos.x, currentPos.z) : 0;
     
     if (pos.y <= floor + 0.05 && currentVel.y < 0) {
         path.push({ ...pos, y: floor });
@@ -179,6 +570,7 @@ export const predictTrajectory = (
     
     currentPos = pos;
     currentVel = vel;
+    currentSpin = spin;
     path.push(currentPos);
 
     if (currentPos.y <= floor && Math.abs(currentVel.y) < 0.1 && i > 0) {
@@ -195,10 +587,12 @@ export const calculateTrajectoryData = (
     startVel: Vector3,
     config: PhysicsConfig,
     levelTiles: Tile[],
-    maxSteps: number
+    maxSteps: number,
+    startSpin: Vector3 = ZERO,
+    environment?: PhysicsEnvironment
 ): TrajectoryData => {
     const dt = 0.05;
-    const points = predictTrajectory(startPos, startVel, config, levelTiles, maxSteps, dt);
+    const points = predictTrajectory(startPos, startVel, config, levelTiles, maxSteps, dt, startSpin, environment);
     
     // Metrics
     const hSpeed = Math.sqrt(startVel.x**2 + startVel.z**2);
@@ -221,3 +615,127 @@ export const calculateTrajectoryData = (
         duration
     };
 };
+
+// --- HEADLESS SHOT SIMULATION ---
+// A shot is simulated start-to-finish up front with a fixed timestep. The UI only
+// plays the resulting timeline back, so frame rate never changes where the ball ends up.
+
+export type ShotOutcome = 'HOLED' | 'WATER' | 'LAVA' | 'STOPPED' | 'VOID';
+
+export interface ShotFrame {
+  time: number; // s since launch
+  position: Vector3;
+  velocity: Vector3;
+  spin: Vector3;
+}
+
+export interface ShotResult {
+  timeline: ShotFrame[]; // timeline[0] is the launch, one frame per FIXED_TIMESTEP
+  outcome: ShotOutcome;
+  finalPosition: Vector3;
+  duration: number; // s
+}
+
+export interface SimulateShotOptions {
+  spin?: Vector3; // Launch spin, rad/s
+  startTime?: number; // Level clock at launch, for wind gusts
+  otherBalls?: Vector3[]; // Balls left on the course by other players
+  dt?: number;
+  maxTime?: number;
+}
+
+export const simulateShot = (
+  level: Level,
+  startPos: Vector3,
+  velocity: Vector3,
+  config: PhysicsConfig,
+  options: SimulateShotOptions = {}
+): ShotResult => {
+  const dt = options.dt ?? FIXED_TIMESTEP;
+  const maxSteps = Math.ceil((options.maxTime ?? MAX_SHOT_TIME) / dt);
+  const tileGrid = getTileGrid(level.tiles);
+
+  let pos = startPos;
+  let vel = velocity;
+  let spin = options.spin ?? ZERO;
+  const startTime = options.startTime ?? 0;
+  let outcome: ShotOutcome = 'STOPPED';
+  const timeline: ShotFrame[] = [{ time: 0, position: pos, velocity: vel, spin }];
+
+  for (let i = 1; i <= maxSteps; i++) {
+    const next = calculateNextState(pos, vel, dt, config, tileGrid, spin, {
+      wind: level.wind,
+      time: startTime + (i - 1) * dt,
+      balls: options.otherBalls,
+      entities: level.entities,
+    });
+    pos = next.pos;
+    vel = next.vel;
+    spin = next.spin;
+
+    let finished = false;
+    const speed = magnitude(vel);
+    const distToHole = Math.hypot(pos.x - level.holePosition.x, pos.z - level.holePosition.z);
+    const tile = getTileAt(tileGrid, pos);
+    const onGround = Math.abs(pos.y - (tile ? getSurfaceHeight(tile, pos.x, pos.z) : 0)) < 0.1;
+
+    if (next.collision === 'WATER' || next.collision === 'LAVA') {
+      outcome = next.collision;
+      finished = true;
+    } else if (pos.y < VOID_DEPTH) {
+      outcome = 'VOID';
+      finished = true;
+    } else if (distToHole < HOLE_RADIUS && speed < HOLE_CAPTURE_SPEED) {
+      outcome = 'HOLED';
+      pos = level.holePosition;
+      finished = true;
+    } else if (speed < config.minVelocityToStop && onGround) {
+      finished = true;
+    }
+
+    if (finished) {
+      vel = ZERO;
+      spin = ZERO;
+    }
+    timeline.push({ time: i * dt, position: pos, velocity: vel, spin });
+    if (finished) break;
+  }
+
+  const last = timeline[timeline.length - 1];
+  return {
+    timeline,
+    outcome,
+    finalPosition: last.position,
+    duration: last.time,
+  };
+};
+
+// Real-time playback of a ShotResult. Wall-clock time is banked in an accumulator
+// and spent in whole FIXED_TIMESTEP frames.
+export interface ShotPlayback {
+  result: ShotResult;
+  frameIndex: number;
+  accumulator: number;
+}
+
+export const createPlayback = (result: ShotResult): ShotPlayback => ({
+  result,
+  frameIndex: 0,
+  accumulator: 0,
+});
+
+export const advancePlayback = (playback: ShotPlayback, elapsed: number, dt: number = FIXED_TIMESTEP): ShotPlayback => {
+  let accumulator = playback.accumulator + elapsed;
+  let frameIndex = playback.frameIndex;
+  const lastIndex = playback.result.timeline.length - 1;
+
+  while (accumulator >= dt && frameIndex < lastIndex) {
+    accumulator -= dt;
+    frameIndex++;
+  }
+
+  return { ...playback, frameIndex, accumulator };
+};
+
+export const isPlaybackFinished = (playback: ShotPlayback): boolean =>
+  playback.frameIndex >= playback.result.timeline.length - 1;
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { createRng, hashSeed, randomInt } from './random';
+
+describe('createRng', () => {
+  it('repeats its stream for the same seed', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    expect(Array.from({ length: 5 }, a)).toEqual(Array.from({ length: 5 }, b));
+  });
+});
+
+describe('randomInt', () => {
+  it('covers every value in [min, max) and nothing else', () => {
+    const rng = createRng(7);
+    const seen = new Set(Array.from({ length: 200 }, () => randomInt(rng, 0, 3)));
+    expect([...seen].sort()).toEqual([0, 1, 2]);
+  });
+});
+
+describe('hashSeed', () => {
+  it('depends on the order of its inputs', () => {
+    expect(hashSeed(1, 2)).toBe(hashSeed(1, 2));
+    expect(hashSeed(1, 2)).not.toBe(hashSeed(2, 1));
+  });
+});
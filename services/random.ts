@@ -0,0 +1,35 @@
+// Deterministic pseudo-random numbers.
+// Everything that must be reproducible (level layout, course codes) draws from
+// an Rng created here instead of Math.random().
+
+export type Rng = () => number;
+
+// Mulberry32: tiny, fast and good enough for procedural content.
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Integer in [min, max)
+export const randomInt = (rng: Rng, min: number, max: number): number =>
+  Math.floor(rng() * (max - min)) + min;
+
+// Mix several integers into one 32-bit seed (used to derive sub-seeds)
+export const hashSeed = (...values: number[]): number => {
+  let h = 0x811c9dc5;
+  for (const v of values) {
+    h ^= v >>> 0;
+    h = Math.imul(h, 0x01000193) >>> 0;
+    h ^= h >>> 13;
+  }
+  return h >>> 0;
+};
+
+// Fresh seed for a brand new, never-seen-before hole
+export const randomSeed = (): number => Math.floor(Math.random() * 0xffffffff) >>> 0;
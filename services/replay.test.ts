@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { ClubType } from '../types';
+import { PHYSICS_CONFIG } from '../constants';
+import { generateLevel } from './levelGenerator';
+import { CUSTOM_CODE } from './levelEditor';
+import { simulateShot } from './physicsEngine';
+import { createReplayFile, createShotRecord, getFrameAt, parseReplay, serializeReplay } from './replay';
+
+const level = generateLevel(2, 4242);
+const velocity = { x: 6, y: 4, z: 3 };
+const spin = { x: 0, y: 0, z: 0 };
+const record = createShotRecord(simulateShot(level, level.startPosition, velocity, PHYSICS_CONFIG), velocity, {
+  playerId: 0,
+  stroke: 1,
+  club: ClubType.IRON,
+  powerRatio: 0.5,
+  contactPoint: { x: 0, y: 0 },
+  spin,
+  startTime: 0,
+});
+const json = serializeReplay(createReplayFile(level, [record]));
+
+const errorOf = (text: string, onto = level) => {
+  const parsed = parseReplay(text, onto);
+  return 'error' in parsed ? parsed.error : null;
+};
+
+const withFile = (change: (file: Record<string, unknown>) => void) => {
+  const file = JSON.parse(json);
+  change(file);
+  return JSON.stringify(file);
+};
+
+describe('replay files', () => {
+  it('load back onto the hole they were played on, positions to 0.1 mm', () => {
+    const parsed = parseReplay(json, level);
+    if (!('replay' in parsed)) throw new Error(parsed.error);
+    const [shot] = parsed.replay.shots;
+    expect(shot.outcome).toBe(record.outcome);
+    expect(shot.positions).toHaveLength(record.positions.length);
+    shot.positions.forEach((p, i) => {
+      expect(p.x).toBeCloseTo(record.positions[i].x, 4);
+      expect(p.z).toBeCloseTo(record.positions[i].z, 4);
+    });
+  });
+
+  it('are refused by any other hole', () => {
+    expect(errorOf(json, { ...level, seed: level.seed + 1 })).toMatch(/not this hole/);
+    expect(errorOf(json, { ...level, levelIndex: level.levelIndex + 1 })).toMatch(/not this hole/);
+    expect(errorOf(json, { ...level, code: `${level.code}-K` })).toMatch(/not this hole/);
+  });
+
+  it('are refused by a custom hole, even one that shares the seed', () => {
+    const custom = { ...level, code: CUSTOM_CODE };
+    expect(errorOf(serializeReplay(createReplayFile(custom, [record])), custom)).toBe('Replays cannot be loaded onto a custom hole');
+  });
+
+  it('explain what is wrong with a bad file', () => {
+    expect(errorOf('{')).toBe('Not a valid JSON file');
+    expect(errorOf('null')).toBe('Not a replay file');
+    expect(errorOf(withFile(f => { f.format = 'other'; }))).toBe('Not a replay file');
+    expect(errorOf(withFile(f => { f.version = 9; }))).toBe('Unsupported replay version 9');
+    expect(errorOf(withFile(f => { f.shots = 'none'; }))).toBe('Replay has no shots');
+    expect(errorOf(withFile(f => { (f.shots as Record<string, unknown>[])[0].club = 'SPOON'; }))).toBe('Shot 1 has an unknown club "SPOON"');
+    expect(errorOf(withFile(f => { (f.shots as Record<string, unknown>[])[0].positions = []; }))).toBe('Shot 1 has no recorded positions');
+    expect(errorOf(withFile(f => { (f.shots as Record<string, unknown>[])[0].aim = null; }))).toBe('Shot 1 is missing its aim input');
+  });
+});
+
+describe('getFrameAt', () => {
+  it('clamps to the recorded frames', () => {
+    expect(getFrameAt(record, -1)).toBe(0);
+    expect(getFrameAt(record, record.dt * 2.5)).toBe(2);
+    expect(getFrameAt(record, 1e6)).toBe(record.positions.length - 1);
+  });
+});
@@ -0,0 +1,172 @@
+import { ClubType, ContactPoint, Level, TrajectoryData, Vector3 } from '../types';
+import { ShotOutcome, ShotResult } from './physicsEngine';
+import { CUSTOM_CODE } from './levelEditor';
+
+// --- SHOT RECORDING ---
+// What actually happened on each shot, as opposed to lastTrajectory (the launch prediction).
+// Positions are the simulation's own fixed steps, so a replay is frame-exact.
+
+export const REPLAY_FORMAT = 'physics-golf-replay';
+export const REPLAY_VERSION = 1;
+
+const OUTCOMES: ShotOutcome[] = ['HOLED', 'WATER', 'LAVA', 'STOPPED', 'VOID'];
+
+// The player's input for a shot
+export interface ShotAim {
+  powerRatio: number; // 0-1
+  heading: number; // Degrees in the ground plane, 0 = +x, 90 = +z
+  launchAngle: number; // Degrees
+  contactPoint: ContactPoint;
+}
+
+export interface ShotRecord {
+  playerId: number;
+  stroke: number; // The player's stroke number on this hole
+  club: ClubType;
+  aim: ShotAim;
+  velocity: Vector3; // Launch velocity
+  spin: Vector3; // Launch spin, rad/s
+  startTime: number; // Level clock at launch
+  dt: number; // s between positions
+  positions: Vector3[]; // positions[0] is the launch
+  outcome: ShotOutcome;
+}
+
+// A hole's worth of shots, tied to the level it was played on
+export interface ReplayFile {
+  format: typeof REPLAY_FORMAT;
+  version: number;
+  levelIndex: number;
+  seed: number;
+  code: string;
+  shots: ShotRecord[];
+}
+
+export interface ShotRecordInput {
+  playerId: number;
+  stroke: number;
+  club: ClubType;
+  powerRatio: number;
+  contactPoint: ContactPoint;
+  spin: Vector3;
+  startTime: number;
+}
+
+const toDegrees = (rad: number) => rad * 180 / Math.PI;
+
+export const createShotRecord = (result: ShotResult, velocity: Vector3, input: ShotRecordInput): ShotRecord => {
+  const timeline = result.timeline;
+  const hSpeed = Math.hypot(velocity.x, velocity.z);
+  return {
+    playerId: input.playerId,
+    stroke: input.stroke,
+    club: input.club,
+    aim: {
+      powerRatio: input.powerRatio,
+      heading: toDegrees(Math.atan2(velocity.z, velocity.x)),
+      launchAngle: toDegrees(Math.atan2(velocity.y, hSpeed)),
+      contactPoint: input.contactPoint,
+    },
+    velocity,
+    spin: input.spin,
+    startTime: input.startTime,
+    dt: timeline.length > 1 ? timeline[1].time - timeline[0].time : 0,
+    positions: timeline.map(frame => frame.position),
+    outcome: result.outcome,
+  };
+};
+
+export const getRecordDuration = (record: ShotRecord): number =>
+  Math.max(0, record.positions.length - 1) * record.dt;
+
+// Frame index showing the ball at `time` seconds into the shot
+export const getFrameAt = (record: ShotRecord, time: number): number =>
+  record.dt > 0 ? Math.max(0, Math.min(record.positions.length - 1, Math.floor(time / record.dt))) : 0;
+
+// The recorded path as a ghost trajectory, thinned out for drawing
+export const toTrajectoryData = (record: ShotRecord, maxPoints = 200): TrajectoryData => {
+  const { positions, aim } = record;
+  const stride = Math.max(1, Math.ceil(positions.length / maxPoints));
+  const points = positions.filter((_, i) => i % stride === 0);
+  const last = positions[positions.length - 1];
+  if (points[points.length - 1] !== last) points.push(last);
+
+  const start = positions[0];
+  return {
+    points,
+    maxHeight: positions.reduce((max, p) => Math.max(max, p.y), start.y),
+    range: Math.hypot(last.x - start.x, last.z - start.z),
+    launchAngle: aim.launchAngle,
+    duration: getRecordDuration(record),
+  };
+};
+
+// --- JSON FILES ---
+
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+const roundVector = (v: Vector3): Vector3 => ({ x: round4(v.x), y: round4(v.y), z: round4(v.z) });
+
+export const createReplayFile = (level: Level, shots: ShotRecord[]): ReplayFile => ({
+  format: REPLAY_FORMAT,
+  version: REPLAY_VERSION,
+  levelIndex: level.levelIndex,
+  seed: level.seed,
+  code: level.code,
+  shots,
+});
+
+// Positions are rounded to 0.1 mm to keep files small
+export const serializeReplay = (replay: ReplayFile): string =>
+  JSON.stringify({
+    ...replay,
+    shots: replay.shots.map(shot => ({ ...shot, positions: shot.positions.map(roundVector) })),
+  });
+
+export type ReplayParseResult = { replay: ReplayFile } | { error: string };
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isVector = (v: unknown): v is Vector3 => isRecord(v) && isNumber(v.x) && isNumber(v.y) && isNumber(v.z);
+
+const validateShot = (shot: unknown, index: number): string | null => {
+  const label = `Shot ${index + 1}`;
+  if (!isRecord(shot)) return `${label} is not an object`;
+  if (!Object.values(ClubType).includes(shot.club as ClubType)) return `${label} has an unknown club "${shot.club}"`;
+  if (!OUTCOMES.includes(shot.outcome as ShotOutcome)) return `${label} has an unknown outcome "${shot.outcome}"`;
+  if (!isVector(shot.velocity) || !isVector(shot.spin)) return `${label} is missing its launch velocity or spin`;
+  if (!isNumber(shot.dt) || shot.dt <= 0) return `${label} has an invalid timestep`;
+  if (!Array.isArray(shot.positions) || shot.positions.length === 0) return `${label} has no recorded positions`;
+  if (!shot.positions.every(isVector)) return `${label} has a malformed position`;
+  const aim = shot.aim;
+  if (!isRecord(aim) || !isNumber(aim.powerRatio) || !isNumber(aim.heading) || !isNumber(aim.launchAngle)) {
+    return `${label} is missing its aim input`;
+  }
+  return null;
+};
+
+// Reads a replay file and checks that it belongs to `level`
+export const parseReplay = (json: string, level: Level): ReplayParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { error: 'Not a valid JSON file' };
+  }
+
+  if (!isRecord(data) || data.format !== REPLAY_FORMAT) return { error: 'Not a replay file' };
+  if (data.version !== REPLAY_VERSION) return { error: `Unsupported replay version ${data.version}` };
+  // The course code names the map type and size as well as the seed; a hand-built hole
+  // has no code of its own, so nothing says its replay was played on these tiles
+  if (level.code === CUSTOM_CODE) return { error: 'Replays cannot be loaded onto a custom hole' };
+  if (data.code !== level.code || data.seed !== level.seed || data.levelIndex !== level.levelIndex) {
+    return { error: `Replay is for course ${data.code ?? 'unknown'}, not this hole` };
+  }
+  if (!Array.isArray(data.shots)) return { error: 'Replay has no shots' };
+
+  for (let i = 0; i < data.shots.length; i++) {
+    const error = validateShot(data.shots[i], i);
+    if (error) return { error };
+  }
+
+  return { replay: data as unknown as ReplayFile }; // Checked above
+};
@@ -0,0 +1,72 @@
+import { Course, HoleScore, Level, Player, Round } from '../types';
+import { generateLevel, LevelOptions } from './levelGenerator';
+import { hashSeed } from './random';
+
+export const FRONT_NINE = 9;
+
+// Every hole gets its own seed derived from the course seed, so a course is reproducible.
+// `options` applies to every hole, e.g. all canyons or all on a big map.
+export const createCourse = (seed: number, holeCount: number, options: LevelOptions = {}): Course => ({
+  seed,
+  holes: Array.from({ length: holeCount }, (_, i) => generateLevel(i + 1, hashSeed(seed, i), options)),
+});
+
+// A one-hole course, e.g. for a pasted course code
+export const createSingleHoleCourse = (level: Level): Course => ({
+  seed: level.seed,
+  holes: [level],
+});
+
+export const createRound = (course: Course, players: Player[]): Round => ({
+  course,
+  players,
+  currentHole: 0,
+  scores: players.map(() => course.holes.map(() => null)),
+});
+
+export const getCurrentHole = (round: Round): Level => round.course.holes[round.currentHole];
+
+export const recordHoleScore = (round: Round, playerIndex: number, score: HoleScore): Round => ({
+  ...round,
+  scores: round.scores.map((playerScores, p) =>
+    p === playerIndex ? playerScores.map((s, i) => (i === round.currentHole ? score : s)) : playerScores
+  ),
+});
+
+export const isFinalHole = (round: Round): boolean => round.currentHole >= round.course.holes.length - 1;
+
+// Next hole, or null once the round is over
+export const advanceRound = (round: Round): Round | null =>
+  isFinalHole(round) ? null : { ...round, currentHole: round.currentHole + 1 };
+
+export interface ScoreTotals {
+  strokes: number; // Including penalties
+  par: number; // Par of the holes that have been played
+  played: number;
+}
+
+const sumScores = (round: Round, playerIndex: number, from: number, to: number): ScoreTotals => {
+  const totals: ScoreTotals = { strokes: 0, par: 0, played: 0 };
+  const scores = round.scores[playerIndex];
+  for (let i = from; i < Math.min(to, scores.length); i++) {
+    const score = scores[i];
+    if (!score) continue;
+    totals.strokes += score.strokes + score.penalties;
+    totals.par += round.course.holes[i].par;
+    totals.played++;
+  }
+  return totals;
+};
+
+// Front nine ("out"), back nine ("in") and the whole round for one player
+export const getRoundTotals = (round: Round, playerIndex: number) => {
+  const holeCount = round.course.holes.length;
+  return {
+    front: sumScores(round, playerIndex, 0, FRONT_NINE),
+    back: sumScores(round, playerIndex, FRONT_NINE, holeCount),
+    total: sumScores(round, playerIndex, 0, holeCount),
+  };
+};
+
+export const getCoursePar = (course: Course): number =>
+  course.holes.reduce((sum, hole) => sum + hole.par, 0);
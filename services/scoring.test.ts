@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Tile, TileType } from '../types';
+import { analysePar, combinePar, computePar, formatToPar, getPenaltyStrokes, getScoreName } from './scoring';
+
+// A one-tile-wide strip from (0, 0) to (length - 1, 0)
+const strip = (length: number, types: Record<number, TileType> = {}): Tile[] =>
+  Array.from({ length }, (_, x) => ({ x, z: 0, height: 0, type: types[x] ?? TileType.FAIRWAY }));
+
+const ends = (length: number) => [{ x: 0, y: 0, z: 0 }, { x: length - 1, y: 0, z: 0 }] as const;
+
+describe('computePar', () => {
+  it('grows with the length of the route', () => {
+    expect(computePar(strip(10), ...ends(10))).toBe(3);
+    expect(computePar(strip(25), ...ends(25))).toBe(4);
+    expect(computePar(strip(40), ...ends(40))).toBe(5);
+  });
+
+  it('adds strokes for water that has to be carried', () => {
+    const tiles = strip(10, { 4: TileType.WATER, 5: TileType.WATER });
+    expect(analysePar(tiles, ...ends(10)).hazardScore).toBeCloseTo(0.5);
+    expect(computePar(tiles, ...ends(10))).toBe(4);
+  });
+});
+
+describe('combinePar', () => {
+  it('keeps the geometric par unless the solver needs more, up to six', () => {
+    expect(combinePar(4, 3)).toBe(4);
+    expect(combinePar(3, 5)).toBe(5);
+    expect(combinePar(5, 9)).toBe(6);
+  });
+});
+
+describe('penalties', () => {
+  it('charge lava a stroke more than water or out of bounds', () => {
+    expect(getPenaltyStrokes('WATER')).toBe(1);
+    expect(getPenaltyStrokes('VOID')).toBe(1);
+    expect(getPenaltyStrokes('LAVA')).toBe(2);
+  });
+});
+
+describe('score names', () => {
+  it('name a hole against its par', () => {
+    expect(getScoreName(1, 3)).toBe('Hole in One');
+    expect(getScoreName(3, 5)).toBe('Eagle');
+    expect(getScoreName(4, 4)).toBe('Par');
+    expect(getScoreName(6, 4)).toBe('Double Bogey');
+    expect(getScoreName(9, 4)).toBe('5 Over');
+  });
+
+  it('format a running score the golf way', () => {
+    expect(formatToPar(0)).toBe('E');
+    expect(formatToPar(2)).toBe('+2');
+    expect(formatToPar(-1)).toBe('-1');
+  });
+});
@@ -0,0 +1,176 @@
+import { Tile, TileType, Vector3 } from '../types';
+import { getTileGrid, getTileAt, getTileAtCell, ShotOutcome } from './physicsEngine';
+
+// Rough full-drive distance (tiles, carry + roll) with the standard physics config
+const TYPICAL_DRIVE = 11;
+// Approach distance that still counts as "on the green in regulation"
+const GREEN_REACH = 2;
+// Extra par for hazard-heavy routes: water counts more than sand
+const HAZARD_WEIGHTS: Partial<Record<TileType, number>> = {
+  [TileType.WATER]: 0.25,
+  [TileType.LAVA]: 0.35,
+  [TileType.SAND]: 0.1,
+  [TileType.MUD]: 0.1,
+};
+// Ground you can't roll through; the route has to carry or go around it
+const BLOCKING_COST: Partial<Record<TileType, number>> = {
+  [TileType.WATER]: 3,
+  [TileType.LAVA]: 3,
+  [TileType.TREE]: 4,
+  [TileType.OBSTACLE]: 4,
+};
+
+export const PENALTY_STROKES = 1; // Water or out of bounds: stroke and distance
+export const LAVA_PENALTY_STROKES = 2; // Lava costs an extra stroke on top
+
+export const getPenaltyStrokes = (outcome: ShotOutcome): number =>
+  outcome === 'LAVA' ? LAVA_PENALTY_STROKES : PENALTY_STROKES;
+
+export interface ParAnalysis {
+  par: number;
+  pathLength: number; // Tiles along the cheapest route
+  hazardScore: number;
+}
+
+// Binary min-heap of grid cells ordered by route cost
+const createCellHeap = () => {
+  const cells: number[] = [];
+  const costs: number[] = [];
+  const swap = (a: number, b: number) => {
+    [cells[a], cells[b]] = [cells[b], cells[a]];
+    [costs[a], costs[b]] = [costs[b], costs[a]];
+  };
+
+  const push = (cell: number, cost: number) => {
+    cells.push(cell);
+    costs.push(cost);
+    for (let i = cells.length - 1; i > 0;) {
+      const parent = (i - 1) >> 1;
+      if (costs[parent] <= costs[i]) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const pop = (): number => {
+    const top = cells[0];
+    const lastCell = cells.pop()!;
+    const lastCost = costs.pop()!;
+    if (cells.length > 0) {
+      cells[0] = lastCell;
+      costs[0] = lastCost;
+      for (let i = 0; ;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < cells.length && costs[l] < costs[smallest]) smallest = l;
+        if (r < cells.length && costs[r] < costs[smallest]) smallest = r;
+        if (smallest === i) break;
+        swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  return { push, pop, isEmpty: () => cells.length === 0 };
+};
+
+// Par from course geometry: shortest route from tee to hole over the grid (Dijkstra,
+// 8-connected) with hazards weighted as detours, then regulation strokes plus two putts.
+export const analysePar = (tiles: Tile[], start: Vector3, hole: Vector3): ParAnalysis => {
+  const grid = getTileGrid(tiles);
+  const { width, depth, minX, minZ } = grid;
+  const cellOf = (x: number, z: number) => (z - minZ) * width + (x - minX);
+  const tileOf = (cell: number) => getTileAtCell(grid, minX + (cell % width), minZ + Math.floor(cell / width))!;
+
+  const startTile = getTileAt(grid, start);
+  const holeTile = getTileAt(grid, hole);
+
+  const dist = new Float64Array(width * depth).fill(Infinity);
+  const prev = new Int32Array(width * depth).fill(-1);
+  const done = new Uint8Array(width * depth);
+  const open = createCellHeap();
+
+  const startCell = startTile ? cellOf(startTile.x, startTile.z) : -1;
+  const holeCell = holeTile ? cellOf(holeTile.x, holeTile.z) : -1;
+  if (startTile && holeTile) {
+    dist[startCell] = 0;
+    open.push(startCell, 0);
+  }
+
+  while (!open.isEmpty()) {
+    const cell = open.pop();
+    if (done[cell]) continue;
+    done[cell] = 1;
+    if (cell === holeCell) break;
+
+    const tile = tileOf(cell);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        if (dx === 0 && dz === 0) continue;
+        const neighbour = getTileAtCell(grid, tile.x + dx, tile.z + dz);
+        if (!neighbour || neighbour.type === TileType.EMPTY) continue;
+        const nCell = cellOf(neighbour.x, neighbour.z);
+        if (done[nCell]) continue;
+
+        const step = (dx !== 0 && dz !== 0 ? Math.SQRT2 : 1) * (BLOCKING_COST[neighbour.type] ?? 1);
+        const cost = dist[cell] + step;
+        if (cost < dist[nCell]) {
+          dist[nCell] = cost;
+          prev[nCell] = cell;
+          open.push(nCell, cost);
+        }
+      }
+    }
+  }
+
+  // Walk the route back to measure its real length and the hazards on it
+  let pathLength = 0;
+  let hazardScore = 0;
+  if (holeCell !== -1 && prev[holeCell] !== -1) {
+    for (let cell = holeCell; cell !== startCell; cell = prev[cell]) {
+      const a = tileOf(cell);
+      const b = tileOf(prev[cell]);
+      pathLength += Math.hypot(a.x - b.x, a.z - b.z);
+      hazardScore += HAZARD_WEIGHTS[a.type] ?? 0;
+    }
+  } else {
+    // Disconnected: fall back to the straight line
+    pathLength = Math.hypot(hole.x - start.x, hole.z - start.z);
+  }
+
+  const approachShots = Math.ceil(Math.max(1, pathLength - GREEN_REACH) / TYPICAL_DRIVE);
+  const par = Math.max(3, Math.min(5, approachShots + 2 + Math.round(hazardScore)));
+
+  return { par, pathLength, hazardScore };
+};
+
+export const computePar = (tiles: Tile[], start: Vector3, hole: Vector3): number =>
+  analysePar(tiles, start, hole).par;
+
+// A hole the solver can't finish in fewer strokes than the geometry suggests gets the
+// solver's count instead; one that genuinely needs six is a par 6.
+const MAX_PAR = 6;
+export const combinePar = (geometricPar: number, solverStrokes: number): number =>
+  Math.min(MAX_PAR, Math.max(geometricPar, solverStrokes));
+
+// "Birdie", "Bogey", ... for a finished hole
+export const getScoreName = (strokes: number, par: number): string => {
+  if (strokes === 1) return 'Hole in One';
+  const diff = strokes - par;
+  switch (diff) {
+    case -3: return 'Albatross';
+    case -2: return 'Eagle';
+    case -1: return 'Birdie';
+    case 0: return 'Par';
+    case 1: return 'Bogey';
+    case 2: return 'Double Bogey';
+    case 3: return 'Triple Bogey';
+    default: return diff < 0 ? `${-diff} Under` : `${diff} Over`;
+  }
+};
+
+// Golf-style relative score: "E", "+2", "-1"
+export const formatToPar = (diff: number): string =>
+  diff === 0 ? 'E' : diff > 0 ? `+${diff}` : `${diff}`;
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { ClubType, Level, TileType } from '../types';
+import { createRng } from './random';
+import { applyDispersion, getDispersion, getShotSeed, isClubAllowed, rollDispersion, rotateShot } from './shotModel';
+
+const level = { seed: 31337, levelIndex: 4 } as Level;
+const zero = { x: 0, y: 0, z: 0 };
+
+describe('dispersion', () => {
+  it('seeds each shot by hole, player and stroke', () => {
+    expect(getShotSeed(level, 1, 2)).toBe(getShotSeed(level, 1, 2));
+    expect(getShotSeed(level, 1, 2)).not.toBe(getShotSeed(level, 2, 2));
+    expect(getShotSeed(level, 1, 2)).not.toBe(getShotSeed(level, 1, 3));
+    expect(getShotSeed(level, 1, 2)).not.toBe(getShotSeed({ ...level, seed: level.seed + 1 }, 1, 2));
+  });
+
+  it('rolls the same miss from the same seed, inside the window', () => {
+    const window = getDispersion(ClubType.DRIVER, 1, 'TEE');
+    const roll = () => rollDispersion(window, createRng(getShotSeed(level, 0, 1)));
+    expect(roll()).toEqual(roll());
+
+    const rng = createRng(5);
+    for (let i = 0; i < 500; i++) {
+      const miss = rollDispersion(window, rng);
+      expect(Math.abs(miss.heading)).toBeLessThanOrEqual(window.heading);
+      expect(Math.abs(miss.power)).toBeLessThanOrEqual(window.power);
+    }
+  });
+
+  it('widens with power, longer clubs and worse lies', () => {
+    expect(getDispersion(ClubType.IRON, 1, TileType.FAIRWAY).heading).toBeGreaterThan(getDispersion(ClubType.IRON, 0.3, TileType.FAIRWAY).heading);
+    expect(getDispersion(ClubType.DRIVER, 1, 'TEE').heading).toBeGreaterThan(getDispersion(ClubType.WEDGE, 1, 'TEE').heading);
+    expect(getDispersion(ClubType.IRON, 1, TileType.ROUGH).heading).toBeGreaterThan(getDispersion(ClubType.IRON, 1, TileType.FAIRWAY).heading);
+  });
+
+  it('leaves a shot alone when the roll is dead centre', () => {
+    const velocity = { x: 3, y: 2, z: 1 };
+    expect(applyDispersion(velocity, zero, { heading: 0, power: 0 }).velocity).toEqual(velocity);
+  });
+});
+
+describe('rotateShot', () => {
+  it('turns +x towards +z for a positive angle', () => {
+    const { velocity } = rotateShot({ x: 1, y: 0.5, z: 0 }, zero, 90);
+    expect(velocity.x).toBeCloseTo(0);
+    expect(velocity.y).toBe(0.5);
+    expect(velocity.z).toBeCloseTo(1);
+  });
+});
+
+describe('isClubAllowed', () => {
+  it('only lets the driver off the tee or fairway', () => {
+    expect(isClubAllowed(ClubType.DRIVER, 'TEE')).toBe(true);
+    expect(isClubAllowed(ClubType.DRIVER, TileType.FAIRWAY)).toBe(true);
+    expect(isClubAllowed(ClubType.DRIVER, TileType.ROUGH)).toBe(false);
+    expect(isClubAllowed(ClubType.WEDGE, TileType.SAND)).toBe(true);
+  });
+});
@@ -0,0 +1,192 @@
+import { ClubType, ContactPoint, Level, Lie, TileType, Vector3 } from '../types';
+import { PHYSICS_CONSTANTS } from '../constants';
+import { getRollingSpin } from './physicsEngine';
+import { hashSeed, Rng } from './random';
+
+// Angles in Degrees, spin in rad/s (backspin at full power from a centred strike)
+export const CLUB_STATS = {
+  [ClubType.DRIVER]: { maxForce: 2200, minAngle: 18, angleRange: 12, guideLines: 100, baseSpin: 35 }, 
+  [ClubType.IRON]:   { maxForce: 1400, minAngle: 30, angleRange: 15, guideLines: 80, baseSpin: 90 },
+  [ClubType.WEDGE]:  { maxForce: 950, minAngle: 45, angleRange: 20, guideLines: 60, baseSpin: 160 }, 
+  [ClubType.PUTTER]: { maxForce: 1500, minAngle: 0, angleRange: 0, guideLines: 40, baseSpin: 0 }, // Increased slightly
+};
+
+// Extra spin from striking off-centre, at full power
+const CONTACT_BACKSPIN = 70;
+const CONTACT_SIDESPIN = 60;
+
+// --- LIES ---
+// A poor lie takes power off the strike and widens the dispersion. Sand caps how far
+// anything but a wedge can go, and the driver only works off a clean, flat lie.
+
+export interface LieEffect {
+  power: number; // Multiplier on the strike
+  scatter: number; // Extra heading dispersion at full power, degrees (and 1% of distance per degree)
+  maxPower?: number; // Strike cap for every club but the wedge
+}
+
+const CLEAN_LIE: LieEffect = { power: 1, scatter: 0 };
+
+const LIE_EFFECTS: Partial<Record<Lie, LieEffect>> = {
+  [TileType.ROUGH]: { power: 0.8, scatter: 4 },
+  [TileType.SAND]: { power: 0.9, scatter: 2, maxPower: 0.4 },
+  [TileType.GRAVEL]: { power: 0.9, scatter: 3 },
+  [TileType.SNOW]: { power: 0.85, scatter: 2 },
+  [TileType.MUD]: { power: 0.6, scatter: 5 },
+};
+
+const DRIVER_LIES: Lie[] = ['TEE', TileType.FAIRWAY];
+
+export const getLie = (tileType: TileType | undefined, onTee: boolean): Lie =>
+  onTee ? 'TEE' : tileType ?? TileType.FAIRWAY;
+
+export const getLieEffect = (lie: Lie): LieEffect => LIE_EFFECTS[lie] ?? CLEAN_LIE;
+
+export const isClubAllowed = (club: ClubType, lie: Lie): boolean =>
+  club !== ClubType.DRIVER || DRIVER_LIES.includes(lie);
+
+// The power that actually reaches the ball
+export const getStrikeRatio = (club: ClubType, powerRatio: number, lie: Lie): number => {
+  const effect = getLieEffect(lie);
+  const capped = effect.maxPower !== undefined && club !== ClubType.WEDGE ? Math.min(powerRatio, effect.maxPower) : powerRatio;
+  return capped * effect.power;
+};
+
+// Swing the launch about the vertical by `degrees`, spin with it. Positive turns right
+// (+x towards +z), the way positive sidespin curves the ball.
+export const rotateShot = (velocity: Vector3, spin: Vector3, degrees: number): { velocity: Vector3; spin: Vector3 } => {
+  const a = degrees * Math.PI / 180;
+  const cos = Math.cos(a);
+  const sin = Math.sin(a);
+  const turn = (v: Vector3) => ({ x: v.x * cos - v.z * sin, y: v.y, z: v.x * sin + v.z * cos });
+  return { velocity: turn(velocity), spin: turn(spin) };
+};
+
+// --- DISPERSION ---
+// No swing is perfect: every shot is knocked off line and off distance by a roll inside
+// a window that widens with power, with longer clubs and with worse lies. Rolls come
+// from an RNG seeded by hole, player and stroke, so a replayed shot scatters the same way.
+
+export interface Dispersion {
+  heading: number; // ± degrees
+  power: number; // ± fraction of launch speed
+}
+
+const CLUB_DISPERSION: Record<ClubType, Dispersion> = {
+  [ClubType.DRIVER]: { heading: 4, power: 0.05 },
+  [ClubType.IRON]: { heading: 2.5, power: 0.04 },
+  [ClubType.WEDGE]: { heading: 1.5, power: 0.03 },
+  [ClubType.PUTTER]: { heading: 0.5, power: 0.02 },
+};
+const SOFT_SWING_DISPERSION = 0.25; // Share of the full-power window left on the gentlest swing
+
+export const getDispersion = (club: ClubType, powerRatio: number, lie: Lie): Dispersion => {
+  const base = CLUB_DISPERSION[club];
+  const { scatter } = getLieEffect(lie);
+  const swing = SOFT_SWING_DISPERSION + (1 - SOFT_SWING_DISPERSION) * powerRatio * powerRatio;
+  return {
+    heading: (base.heading + scatter) * swing,
+    power: (base.power + scatter / 100) * swing,
+  };
+};
+
+export const getShotSeed = (level: Level, playerId: number, stroke: number): number =>
+  hashSeed(level.seed, level.levelIndex, playerId, stroke);
+
+// One shot's miss, inside the window. Triangular, so most shots land near the middle.
+export const rollDispersion = (dispersion: Dispersion, rng: Rng): Dispersion => ({
+  heading: dispersion.heading * (rng() + rng() - 1),
+  power: dispersion.power * (rng() + rng() - 1),
+});
+
+export const applyDispersion = (velocity: Vector3, spin: Vector3, miss: Dispersion): { velocity: Vector3; spin: Vector3 } => {
+  const turned = rotateShot(velocity, spin, miss.heading);
+  const scale = 1 + miss.power;
+  return { velocity: { x: turned.velocity.x * scale, y: turned.velocity.y * scale, z: turned.velocity.z * scale }, spin: turned.spin };
+};
+
+export interface ShotPhysics {
+  velocity: Vector3;
+  spin: Vector3;
+  backspin: number;
+  sidespin: number;
+  force: number;
+  maxForce: number;
+  powerRatio: number;
+  lie: Lie;
+  strikeRatio: number;
+  launchAngle: number; // Degrees
+  mass: number;
+  contactTime: number;
+}
+
+// Club + power (0-1) + ground-plane direction -> launch velocity and spin.
+// (dirX, dirZ) need not be normalised; a zero direction launches straight up.
+// The lie weakens the strike; the launch angle still follows the swing the player made.
+export const computeShot = (
+  clubType: ClubType,
+  powerRatio: number,
+  dirX: number,
+  dirZ: number,
+  contactPoint: ContactPoint = { x: 0, y: 0 },
+  lie: Lie = 'TEE'
+): ShotPhysics => {
+  const club = CLUB_STATS[clubType];
+  const strikeRatio = getStrikeRatio(clubType, powerRatio, lie);
+
+  // 1. Calculate Force Applied (Newtons)
+  const force = strikeRatio * club.maxForce;
+
+  // 2. Calculate Velocity Magnitude from Impulse-Momentum Theorem
+  // J = F * t = m * v  => v = (F * t) / m
+  const velocityMag = (force * PHYSICS_CONSTANTS.CONTACT_TIME) / PHYSICS_CONSTANTS.BALL_MASS;
+
+  // 3. Calculate Dynamic Launch Angle
+  // Low power (Ratio near 0) -> Higher Angle (Chip shot) -> minAngle + angleRange
+  // High power (Ratio near 1) -> Lower Angle (Drive) -> minAngle
+  const angleDeg = club.minAngle + (1 - powerRatio) * club.angleRange;
+  const angleRad = angleDeg * (Math.PI / 180);
+
+  // 4. Decompose Velocity into Vector3
+  const vY = velocityMag * Math.sin(angleRad);
+  const vH = velocityMag * Math.cos(angleRad);
+
+  const len = Math.sqrt(dirX * dirX + dirZ * dirZ);
+  const nx = len === 0 ? 0 : dirX / len;
+  const nz = len === 0 ? 0 : dirZ / len;
+
+  const velocity = { x: nx * vH, y: vY, z: nz * vH };
+
+  // 5. Spin. Backspin turns about the axis to the right of the shot line,
+  // sidespin about the vertical (positive sidespin curves the ball right).
+  let spin: Vector3;
+  let backspin = 0;
+  let sidespin = 0;
+  if (clubType === ClubType.PUTTER) {
+      // A putter gets the ball rolling, not skidding
+      spin = getRollingSpin(velocity);
+  } else {
+      backspin = (club.baseSpin - contactPoint.y * CONTACT_BACKSPIN) * strikeRatio;
+      sidespin = contactPoint.x * CONTACT_SIDESPIN * strikeRatio;
+      spin = {
+          x: -nz * backspin,
+          y: -sidespin,
+          z: nx * backspin
+      };
+  }
+
+  return {
+      velocity,
+      spin,
+      backspin,
+      sidespin,
+      force,
+      maxForce: club.maxForce,
+      powerRatio,
+      lie,
+      strikeRatio,
+      launchAngle: angleDeg,
+      mass: PHYSICS_CONSTANTS.BALL_MASS,
+      contactTime: PHYSICS_CONSTANTS.CONTACT_TIME,
+  };
+};
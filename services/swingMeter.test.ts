@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  curveContact, getMeterPosition, getMeterTimeout, getSwingStrike, readyMeter, resumeSwing, setSwingPower, startSwing,
+  METER_OVERRUN, METER_RISE, SWEET_SPOT,
+} from './swingMeter';
+
+const RISE_MS = METER_RISE * 1000;
+
+describe('swing meter', () => {
+  it('rises to full, then falls back empty if power is never set', () => {
+    const meter = startSwing(1000);
+    expect(getMeterPosition(meter, 1000)).toBe(0);
+    expect(getMeterPosition(meter, 1000 + RISE_MS / 2)).toBeCloseTo(0.5);
+    expect(getMeterPosition(meter, 1000 + RISE_MS)).toBeCloseTo(1);
+    expect(getMeterPosition(meter, 1000 + RISE_MS * 1.5)).toBeCloseTo(0.5);
+    expect(getMeterPosition(meter, 1000 + RISE_MS * 3)).toBe(0);
+    expect(getMeterTimeout(meter, 1000)).toBeCloseTo(2 * RISE_MS);
+  });
+
+  it('falls from the power mark to the overrun, and times out when it gets there', () => {
+    const meter = setSwingPower(startSwing(0), RISE_MS * 0.8);
+    expect(meter.stage).toBe('ACCURACY');
+    expect(meter.power).toBeCloseTo(0.8);
+    const start = meter.startedAt;
+    expect(getMeterPosition(meter, start + RISE_MS * 0.8)).toBeCloseTo(0);
+    expect(getMeterPosition(meter, start + RISE_MS * 5)).toBe(-METER_OVERRUN);
+    expect(getMeterTimeout(meter, start)).toBeCloseTo((0.8 + METER_OVERRUN) * RISE_MS);
+  });
+
+  it('never times out while ready', () => {
+    expect(getMeterTimeout(readyMeter(), 1e9)).toBe(Infinity);
+  });
+
+  it('picks up after a pause where the pause caught it', () => {
+    const meter = startSwing(0);
+    const pausedAt = RISE_MS * 0.3;
+    const resumed = resumeSwing(meter, 5000);
+    expect(getMeterPosition(resumed, pausedAt + 5000)).toBeCloseTo(getMeterPosition(meter, pausedAt));
+    expect(getMeterTimeout(resumed, pausedAt + 5000)).toBeCloseTo(getMeterTimeout(meter, pausedAt));
+  });
+});
+
+describe('getSwingStrike', () => {
+  it('strikes pure inside the sweet spot', () => {
+    const strike = getSwingStrike(0.7, SWEET_SPOT / 2);
+    expect(strike.powerRatio).toBe(0.7);
+    expect(strike.curve).toBeCloseTo(0);
+  });
+
+  it('hooks an early swing and slices a late one, losing power either way', () => {
+    const early = getSwingStrike(1, 0.1);
+    const late = getSwingStrike(1, -0.1);
+    expect(early.curve).toBeLessThan(0);
+    expect(late.curve).toBeGreaterThan(0);
+    expect(early.powerRatio).toBeLessThan(1);
+    expect(late.powerRatio).toBeCloseTo(early.powerRatio);
+  });
+
+  it('keeps the curved contact on the ball', () => {
+    expect(curveContact({ x: 0.8, y: 0.2 }, 1)).toEqual({ x: 1, y: 0.2 });
+  });
+});
@@ -0,0 +1,80 @@
+import { ContactPoint } from '../types';
+
+// --- SWING METER ---
+// The classic three-click swing, as an alternative to drag-and-release. With the aim
+// locked, one click starts the marker rising, a second sets power where it is, and a
+// third, as it falls back past the mark, sets accuracy. Early hooks the ball, late
+// slices it, and either way the miss costs power. The marker is a pure function of the
+// time since the last click, so the canvas and the HUD always agree on where it is.
+
+export type SwingStage = 'READY' | 'POWER' | 'ACCURACY';
+
+export interface SwingMeter {
+  stage: SwingStage;
+  startedAt: number; // performance.now() when the stage began, ms
+  power: number; // 0-1, set by the second click
+}
+
+// How a swing came off: what the shot model gets instead of the drag's power
+export interface SwingStrike {
+  powerRatio: number;
+  accuracy: number; // Marker position at the third click: + early, - late, 0 on the mark
+  curve: number; // Added to the contact point's x: - draws (hook), + fades (slice)
+}
+
+export const METER_RISE = 1.1; // s from empty to full
+export const METER_OVERRUN = 0.15; // How far past the mark the marker runs before a late swing strikes itself
+export const SWEET_SPOT = 0.03; // Accuracy error that still strikes pure
+const MISS_POWER_LOSS = 1.5; // Power lost per unit of error beyond the sweet spot
+const MISS_CURVE = 5; // Contact offset per unit of error beyond the sweet spot
+
+export const readyMeter = (): SwingMeter => ({ stage: 'READY', startedAt: 0, power: 0 });
+
+export const startSwing = (now: number): SwingMeter => ({ stage: 'POWER', startedAt: now, power: 0 });
+
+export const setSwingPower = (meter: SwingMeter, now: number): SwingMeter =>
+  ({ stage: 'ACCURACY', startedAt: now, power: getMeterPosition(meter, now) });
+
+// The clock stops while the game is paused: the marker picks up where the pause caught it
+export const resumeSwing = (meter: SwingMeter, pausedMs: number): SwingMeter =>
+  ({ ...meter, startedAt: meter.startedAt + pausedMs });
+
+// Where the marker is: 1 is full power, 0 the mark, below 0 past it
+export const getMeterPosition = (meter: SwingMeter, now: number): number => {
+  const t = Math.max(0, now - meter.startedAt) / 1000 / METER_RISE;
+  switch (meter.stage) {
+    case 'READY':
+      return 0;
+    case 'POWER':
+      return t <= 1 ? t : Math.max(0, 2 - t); // Falls back empty if power is never set
+    case 'ACCURACY':
+      return Math.max(-METER_OVERRUN, meter.power - t);
+  }
+};
+
+// ms until the stage runs out by itself: an unset power drops the swing, an unset accuracy is a late miss
+export const getMeterTimeout = (meter: SwingMeter, now: number): number => {
+  const elapsed = now - meter.startedAt;
+  switch (meter.stage) {
+    case 'READY':
+      return Infinity;
+    case 'POWER':
+      return 2 * METER_RISE * 1000 - elapsed;
+    case 'ACCURACY':
+      return (meter.power + METER_OVERRUN) * METER_RISE * 1000 - elapsed;
+  }
+};
+
+export const getSwingStrike = (power: number, accuracy: number): SwingStrike => {
+  const miss = Math.max(0, Math.abs(accuracy) - SWEET_SPOT);
+  return {
+    powerRatio: power * Math.max(0, 1 - miss * MISS_POWER_LOSS),
+    accuracy,
+    curve: -Math.sign(accuracy) * miss * MISS_CURVE,
+  };
+};
+
+export const curveContact = (contactPoint: ContactPoint, curve: number): ContactPoint => ({
+  x: Math.max(-1, Math.min(1, contactPoint.x + curve)),
+  y: contactPoint.y,
+});
@@ -0,0 +1,52 @@
+import { CameraState, Palette, Tile } from '../types';
+import { createCanvasRenderer } from './canvasTerrain';
+import { createWebGLRenderer } from './webglTerrain';
+
+// --- TERRAIN RENDERER ---
+// The tiles and their props, drawn under everything else in the scene. The canvas
+// component draws the ball, hole, entities and overlays itself and hands the terrain
+// to a backend: WebGL where the browser has it, Canvas2D otherwise. Both draw the same
+// picture from the same camera, so nothing above this line knows which one it got.
+
+export type RendererKind = 'WEBGL' | 'CANVAS';
+
+// One frame's view. Width and height are CSS px; the backend scales by `dpr` itself.
+export interface TerrainView {
+  camera: CameraState;
+  palette: Palette;
+  dpr: number;
+  width: number;
+  height: number;
+}
+
+export interface TerrainRenderer {
+  readonly kind: RendererKind;
+  setTiles: (tiles: Tile[]) => void; // A new level or an edit
+  draw: (view: TerrainView) => void; // Before the rest of the scene, every frame
+  dispose: () => void;
+}
+
+// WebGL draws into `terrainCanvas`, under the scene; Canvas2D into the scene's own
+// context. A WebGL context the browser takes away falls back to Canvas2D for good.
+export const createTerrainRenderer = (terrainCanvas: HTMLCanvasElement, sceneCtx: CanvasRenderingContext2D): TerrainRenderer => {
+  let tiles: Tile[] = [];
+  let backend: TerrainRenderer;
+  const fallBack = () => {
+    backend.dispose();
+    backend = createCanvasRenderer(sceneCtx);
+    backend.setTiles(tiles);
+  };
+  backend = createWebGLRenderer(terrainCanvas, fallBack) ?? createCanvasRenderer(sceneCtx);
+
+  return {
+    get kind() {
+      return backend.kind;
+    },
+    setTiles: next => {
+      tiles = next;
+      backend.setTiles(next);
+    },
+    draw: view => backend.draw(view),
+    dispose: () => backend.dispose(),
+  };
+};
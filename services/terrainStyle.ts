@@ -0,0 +1,80 @@
+import { Tile, TileType } from '../types';
+import { SIDE_COLORS } from '../constants';
+import { getSurfaceNormal } from './physicsEngine';
+
+// --- TERRAIN STYLE ---
+// What a tile looks like, shared by every renderer backend: wall colours and bands,
+// slope shading, and the flat cut-outs of trees, rocks and grass stood on a tile.
+
+export const BASE_GROUND_LEVEL = -4; // Where the walls of dry tiles stop
+export const PROP_HEADROOM = 2; // World units above a tile that trees and rocks reach
+const LIGHT_DIR = { x: -0.45, y: 0.85, z: -0.3 }; // For shading sloped tiles
+const MAX_SLOPE_SHADE = 0.25;
+
+// Corner offsets from a tile's centre, in the order of `Tile.corners`
+export const TILE_CORNERS: [number, number][] = [[-0.5, -0.5], [0.5, -0.5], [0.5, 0.5], [-0.5, 0.5]];
+
+// Darkening of the wall from each corner to the next, so the faces read as lit from one side
+export const WALL_SHADOWS = [0.1, 0.2, 0.3, 0];
+
+const WALL_COLORS: Partial<Record<TileType, string>> = {
+  [TileType.WATER]: SIDE_COLORS.WATER,
+  [TileType.SAND]: SIDE_COLORS.SAND,
+  [TileType.GRAVEL]: SIDE_COLORS.STONE,
+  [TileType.ICE]: SIDE_COLORS.ICE,
+  [TileType.LAVA]: SIDE_COLORS.LAVA,
+  [TileType.MUD]: SIDE_COLORS.MUD,
+};
+
+// A band painted along the top of a tile's side walls
+export const SIDE_CAPS: Partial<Record<TileType, { color: string; depth: number }>> = {
+  [TileType.SNOW]: { color: '#e2e8f0', depth: 0.3 }, // Snowpack over the soil
+  [TileType.ICE]: { color: 'rgba(255,255,255,0.6)', depth: 0.08 }, // Frosted rim
+  [TileType.LAVA]: { color: '#ea580c', depth: 0.15 }, // Molten edge above the crust
+};
+
+export const getCornerHeights = (tile: Tile): [number, number, number, number] =>
+  tile.corners ?? [tile.height, tile.height, tile.height, tile.height];
+
+export const getWallColor = (tile: Tile): string => WALL_COLORS[tile.type] ?? SIDE_COLORS.SOIL;
+
+// Liquids are a shallow slab; everything else stands on a wall down to the base level
+export const getFloorY = (tile: Tile): number =>
+  tile.type === TileType.WATER || tile.type === TileType.LAVA ? tile.height - 0.5 : BASE_GROUND_LEVEL;
+
+// How much a sloped top is lightened (+) or darkened (-), so contours read on screen. Flat tiles get 0.
+export const getSlopeShade = (tile: Tile): number => {
+  if (!tile.corners) return 0;
+  const n = getSurfaceNormal(tile, tile.x, tile.z);
+  const light = n.x * LIGHT_DIR.x + n.y * LIGHT_DIR.y + n.z * LIGHT_DIR.z - LIGHT_DIR.y;
+  if (Math.abs(light) <= 0.005) return 0;
+  return Math.sign(light) * Math.min(MAX_SLOPE_SHADE, Math.abs(light) * 2);
+};
+
+// A flat picture stood upright on a tile's centre. Points are in tile widths on screen, y down.
+export interface PropPolygon {
+  color: string;
+  points: [number, number][]; // Convex, in order around the edge
+}
+
+export const TREE_SHAPE: PropPolygon[] = [
+  { color: '#451a03', points: [[-0.125, -0.6], [0.125, -0.6], [0.125, 0], [-0.125, 0]] }, // Trunk
+  { color: '#14532d', points: [[0, -1.8], [0.7, -0.5], [-0.7, -0.5]] },
+  { color: '#14532d', points: [[0, -1.4], [0.7, -0.2], [-0.7, -0.2]] },
+];
+
+export const ROCK_SHAPE: PropPolygon[] = [
+  { color: '#78716c', points: [[-0.4, 0], [-0.2, -0.35], [0.15, -0.4], [0.4, -0.1], [0.25, 0.15], [-0.3, 0.1]] },
+  { color: '#a8a29e', points: [[-0.2, -0.35], [0.15, -0.4], [0, -0.15]] }, // Highlight
+];
+
+// Grass blades as x0, y0, x1, y1 in screen px at zoom 1, stroked GRASS_WIDTH wide
+export const GRASS_BLADES: [number, number, number, number][] = [[-3, 0, -6, -6], [0, 0, 0, -6], [3, 0, 6, -6]];
+export const GRASS_WIDTH = 1;
+export const GRASS_COLOR = '#14532d';
+
+// Deterministic per tile, so about 40% of the rough has a tuft
+export const hasGrass = (tx: number, tz: number): boolean => {
+  const seed = Math.sin(tx * 12.9898 + tz * 78.233) * 43758.5453;
+  return seed - Math.floor(seed) <= 0.4;
+};
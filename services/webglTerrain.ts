@@ -0,0 +1,367 @@
+import { Palette, Tile, TileType } from '../types';
+import { TILE_SIZE, TILE_PALETTES } from '../constants';
+import { ISO_X_SCALE, ISO_Y_SCALE } from './camera';
+import { TerrainRenderer, TerrainView } from './terrainRenderer';
+import {
+  WALL_SHADOWS, SIDE_CAPS, PropPolygon, TREE_SHAPE, ROCK_SHAPE, GRASS_BLADES, GRASS_WIDTH, GRASS_COLOR,
+  getCornerHeights, getWallColor, getFloorY, getSlopeShade, hasGrass,
+} from './terrainStyle';
+
+// --- WEBGL TERRAIN ---
+// The same picture as the Canvas2D backend, drawn on the GPU into a canvas under the
+// scene. Every tile is one instance of a unit prism whose corner heights, floor and
+// colours ride along as instance data; trees, rocks and grass are instanced cut-outs
+// stood up on their tile. The depth buffer does the sorting, so a pan, turn or zoom
+// only changes uniforms and the buffers are rebuilt on an edit or a palette change.
+
+const DEPTH_RANGE = 4096; // World units of nearness the depth buffer spans either side of 0
+const PROP_DEPTH_BIAS = 0.5; // Keeps a cut-out's foot in front of its own tile's top
+
+// Screen px and nearness of a world point, as projectWorld. Along a line of sight
+// rx, rz and y all grow together, so their sum orders points front to back.
+const PROJECT = `
+uniform vec2 u_rotation; // cos, sin
+uniform vec2 u_iso;
+uniform float u_tileSize;
+uniform float u_zoom;
+uniform vec2 u_offset;
+uniform vec2 u_viewport; // CSS px
+
+vec3 project(vec3 p) {
+  float rx = p.x * u_rotation.x - p.z * u_rotation.y;
+  float rz = p.x * u_rotation.y + p.z * u_rotation.x;
+  vec2 screen = vec2((rx - rz) * u_iso.x, (rx + rz) * u_iso.y - p.y * u_tileSize) * u_zoom + u_offset;
+  return vec3(screen, rx + rz + p.y);
+}
+
+vec4 toClip(vec2 screen, float nearness) {
+  return vec4(screen / u_viewport * vec2(2.0, -2.0) + vec2(-1.0, 1.0), -nearness / ${DEPTH_RANGE.toFixed(1)}, 1.0);
+}
+`;
+
+const TILE_VERTEX = `#version 300 es
+layout(location = 0) in vec3 a_vertex; // Corner 0-3, 1 on top or 0 on the floor, wall shadow (-1 on the top face)
+layout(location = 1) in vec2 i_center;
+layout(location = 2) in vec4 i_corners;
+layout(location = 3) in vec3 i_levels; // Floor, cap depth, slope shade
+layout(location = 4) in vec4 i_top;
+layout(location = 5) in vec3 i_wall;
+layout(location = 6) in vec4 i_cap;
+${PROJECT}
+const vec2 CORNERS[4] = vec2[4](vec2(-0.5, -0.5), vec2(0.5, -0.5), vec2(0.5, 0.5), vec2(-0.5, 0.5));
+
+flat out vec4 v_color;
+flat out vec4 v_cap;
+flat out float v_capDepth;
+flat out float v_shadow;
+out float v_below; // World units below the top edge of a wall
+
+void main() {
+  int corner = int(a_vertex.x + 0.5);
+  float top = i_corners[corner];
+  float y = a_vertex.y > 0.5 ? top : i_levels.x;
+  vec2 xz = i_center + CORNERS[corner];
+  vec3 p = project(vec3(xz.x, y, xz.y));
+  gl_Position = toClip(p.xy, p.z);
+
+  float shade = i_levels.z;
+  v_color = a_vertex.z < 0.0
+    ? vec4(mix(i_top.rgb, vec3(shade > 0.0 ? 1.0 : 0.0), abs(shade)), i_top.a)
+    : vec4(i_wall, 1.0);
+  v_cap = i_cap;
+  v_capDepth = i_levels.y;
+  v_shadow = a_vertex.z;
+  v_below = top - y;
+}
+`;
+
+const TILE_FRAGMENT = `#version 300 es
+precision mediump float;
+flat in vec4 v_color;
+flat in vec4 v_cap;
+flat in float v_capDepth;
+flat in float v_shadow;
+in float v_below;
+out vec4 outColor;
+
+void main() {
+  vec4 color = v_color;
+  if (v_shadow >= 0.0) {
+    if (v_below < v_capDepth) color.rgb = mix(color.rgb, v_cap.rgb, v_cap.a);
+    color.rgb *= 1.0 - v_shadow;
+  }
+  if (color.a < 0.01) discard;
+  outColor = vec4(color.rgb * color.a, color.a);
+}
+`;
+
+const PROP_VERTEX = `#version 300 es
+layout(location = 0) in vec2 a_offset; // From the foot, in units of u_unit, y down
+layout(location = 1) in vec4 a_color;
+layout(location = 2) in vec3 i_foot;
+${PROJECT}
+uniform float u_unit; // World units per offset unit: a tile width for trees and rocks, a px at zoom 1 for grass
+
+out vec4 v_color;
+
+void main() {
+  vec3 p = project(i_foot);
+  // Stood upright, so a point higher up the cut-out is that much nearer
+  gl_Position = toClip(p.xy + a_offset * u_unit * u_tileSize * u_zoom, p.z - a_offset.y * u_unit + ${PROP_DEPTH_BIAS.toFixed(1)});
+  v_color = a_color;
+}
+`;
+
+const PROP_FRAGMENT = `#version 300 es
+precision mediump float;
+in vec4 v_color;
+out vec4 outColor;
+
+void main() {
+  outColor = vec4(v_color.rgb * v_color.a, v_color.a);
+}
+`;
+
+// Floats per instance of each attribute, in location order after the mesh's own
+const TILE_MESH_LAYOUT = [3];
+const TILE_INSTANCE_LAYOUT = [2, 4, 3, 4, 3, 4];
+const PROP_MESH_LAYOUT = [2, 4];
+const PROP_INSTANCE_LAYOUT = [3];
+
+// One mesh drawn once per instance
+interface Batch {
+  vao: WebGLVertexArrayObject;
+  mesh: WebGLBuffer;
+  instances: WebGLBuffer;
+  vertexCount: number;
+  instanceCount: number;
+}
+
+// A kind of prop: its cut-out, the tiles that carry one, and its offset units
+interface PropKind {
+  batch: Batch;
+  carries: (tile: Tile) => boolean;
+  unit: number;
+}
+
+const colorCache = new Map<string, number[]>();
+
+// CSS colour to 0-1 RGBA. The palettes only use #rrggbb, rgba() and 'transparent'.
+const parseColor = (css: string): number[] => {
+  const cached = colorCache.get(css);
+  if (cached) return cached;
+  let rgba = [0, 0, 0, 0];
+  if (css.startsWith('#')) {
+    const n = parseInt(css.slice(1), 16);
+    rgba = [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255, 1];
+  } else if (css.startsWith('rgb')) {
+    const [r, g, b, a = 1] = css.slice(css.indexOf('(') + 1, -1).split(',').map(Number);
+    rgba = [r / 255, g / 255, b / 255, a];
+  }
+  colorCache.set(css, rgba);
+  return rgba;
+};
+
+// Unit prism: the top face, then a wall from each corner to the next
+const prismMesh = (): number[] => [
+  ...[0, 1, 2, 0, 2, 3].flatMap(corner => [corner, 1, -1]),
+  ...WALL_SHADOWS.flatMap((shadow, i) => {
+    const j = (i + 1) % 4;
+    return [[i, 1], [j, 1], [j, 0], [i, 1], [j, 0], [i, 0]].flatMap(([corner, up]) => [corner, up, shadow]);
+  }),
+];
+
+// Triangle fans over each polygon: x, y, r, g, b, a per vertex
+const cutOutMesh = (shape: PropPolygon[]): number[] =>
+  shape.flatMap(({ color, points }) => {
+    const rgba = parseColor(color);
+    return points.slice(1, -1).flatMap((point, i) => [points[0], point, points[i + 2]].flatMap(([x, y]) => [x, y, ...rgba]));
+  });
+
+// Each blade as a quad GRASS_WIDTH across
+const grassShape = (): PropPolygon[] =>
+  GRASS_BLADES.map(([x0, y0, x1, y1]) => {
+    const length = Math.hypot(x1 - x0, y1 - y0);
+    const nx = ((y0 - y1) / length) * GRASS_WIDTH / 2;
+    const ny = ((x1 - x0) / length) * GRASS_WIDTH / 2;
+    return { color: GRASS_COLOR, points: [[x0 + nx, y0 + ny], [x1 + nx, y1 + ny], [x1 - nx, y1 - ny], [x0 - nx, y0 - ny]] };
+  });
+
+const tileInstances = (tiles: Tile[], palette: Palette): Float32Array => {
+  const stride = TILE_INSTANCE_LAYOUT.reduce((sum, size) => sum + size, 0);
+  const data = new Float32Array(tiles.length * stride);
+  tiles.forEach((tile, i) => {
+    const cap = SIDE_CAPS[tile.type];
+    data.set([
+      tile.x, tile.z,
+      ...getCornerHeights(tile),
+      getFloorY(tile), cap?.depth ?? 0, getSlopeShade(tile),
+      ...parseColor(TILE_PALETTES[palette][tile.type]),
+      ...parseColor(getWallColor(tile)).slice(0, 3),
+      ...(cap ? parseColor(cap.color) : [0, 0, 0, 0]),
+    ], i * stride);
+  });
+  return data;
+};
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string): WebGLShader | null => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (gl.getShaderParameter(shader, gl.COMPILE_STATUS)) return shader;
+  gl.deleteShader(shader);
+  return null;
+};
+
+const linkProgram = (gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram | null => {
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, vertexSource);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) return null;
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+  if (gl.getProgramParameter(program, gl.LINK_STATUS)) return program;
+  gl.deleteProgram(program);
+  return null;
+};
+
+// Locations count up through the mesh's attributes, then the instance's
+const createBatch = (gl: WebGL2RenderingContext, mesh: number[], meshLayout: number[], instanceLayout: number[]): Batch => {
+  const vao = gl.createVertexArray()!;
+  const meshBuffer = gl.createBuffer()!;
+  const instances = gl.createBuffer()!;
+  const bindLayout = (buffer: WebGLBuffer, layout: number[], firstLocation: number, divisor: number) => {
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    const stride = layout.reduce((sum, size) => sum + size, 0) * 4;
+    let offset = 0;
+    layout.forEach((size, i) => {
+      gl.enableVertexAttribArray(firstLocation + i);
+      gl.vertexAttribPointer(firstLocation + i, size, gl.FLOAT, false, stride, offset);
+      gl.vertexAttribDivisor(firstLocation + i, divisor);
+      offset += size * 4;
+    });
+  };
+
+  gl.bindVertexArray(vao);
+  gl.bindBuffer(gl.ARRAY_BUFFER, meshBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array(mesh), gl.STATIC_DRAW);
+  bindLayout(meshBuffer, meshLayout, 0, 0);
+  bindLayout(instances, instanceLayout, meshLayout.length, 1);
+  gl.bindVertexArray(null);
+
+  const vertexSize = meshLayout.reduce((sum, size) => sum + size, 0);
+  return { vao, mesh: meshBuffer, instances, vertexCount: mesh.length / vertexSize, instanceCount: 0 };
+};
+
+const uploadInstances = (gl: WebGL2RenderingContext, batch: Batch, data: Float32Array, layout: number[]) => {
+  gl.bindBuffer(gl.ARRAY_BUFFER, batch.instances);
+  gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+  batch.instanceCount = data.length / layout.reduce((sum, size) => sum + size, 0);
+};
+
+// Null where WebGL2 or the shaders aren't available. `onLost` is called if the browser
+// later takes the context away; this renderer draws nothing after that.
+export const createWebGLRenderer = (canvas: HTMLCanvasElement, onLost: () => void): TerrainRenderer | null => {
+  const gl = canvas.getContext('webgl2', { premultipliedAlpha: true, antialias: true });
+  if (!gl) return null;
+  const tileProgram = linkProgram(gl, TILE_VERTEX, TILE_FRAGMENT);
+  const propProgram = linkProgram(gl, PROP_VERTEX, PROP_FRAGMENT);
+  if (!tileProgram || !propProgram) return null;
+
+  const tileBatch = createBatch(gl, prismMesh(), TILE_MESH_LAYOUT, TILE_INSTANCE_LAYOUT);
+  const props: PropKind[] = [
+    { batch: createBatch(gl, cutOutMesh(TREE_SHAPE), PROP_MESH_LAYOUT, PROP_INSTANCE_LAYOUT), carries: tile => tile.type === TileType.TREE, unit: 1 },
+    { batch: createBatch(gl, cutOutMesh(ROCK_SHAPE), PROP_MESH_LAYOUT, PROP_INSTANCE_LAYOUT), carries: tile => tile.type === TileType.OBSTACLE, unit: 1 },
+    {
+      batch: createBatch(gl, cutOutMesh(grassShape()), PROP_MESH_LAYOUT, PROP_INSTANCE_LAYOUT),
+      carries: tile => tile.type === TileType.ROUGH && hasGrass(tile.x, tile.z),
+      unit: 1 / TILE_SIZE,
+    },
+  ];
+
+  let tiles: Tile[] = [];
+  let builtPalette: Palette | null = null; // Instance data is stale while null
+
+  const build = (palette: Palette) => {
+    uploadInstances(gl, tileBatch, tileInstances(tiles, palette), TILE_INSTANCE_LAYOUT);
+    props.forEach(({ batch, carries }) => {
+      const feet = tiles.filter(carries).flatMap(tile => [tile.x, tile.height, tile.z]);
+      uploadInstances(gl, batch, new Float32Array(feet), PROP_INSTANCE_LAYOUT);
+    });
+    builtPalette = palette;
+  };
+
+  const setView = (program: WebGLProgram, { camera, width, height }: TerrainView) => {
+    const at = (name: string) => gl.getUniformLocation(program, name);
+    gl.uniform2f(at('u_rotation'), Math.cos(camera.rotation), Math.sin(camera.rotation));
+    gl.uniform2f(at('u_iso'), ISO_X_SCALE, ISO_Y_SCALE);
+    gl.uniform1f(at('u_tileSize'), TILE_SIZE);
+    gl.uniform1f(at('u_zoom'), camera.zoom);
+    gl.uniform2f(at('u_offset'), camera.offset.x, camera.offset.y);
+    gl.uniform2f(at('u_viewport'), width, height);
+  };
+
+  const draw = (view: TerrainView) => {
+    if (gl.isContextLost()) return;
+    const pixelWidth = Math.round(view.width * view.dpr);
+    const pixelHeight = Math.round(view.height * view.dpr);
+    if (canvas.width !== pixelWidth || canvas.height !== pixelHeight) {
+      canvas.width = pixelWidth;
+      canvas.height = pixelHeight;
+    }
+    if (view.palette !== builtPalette) build(view.palette);
+
+    gl.viewport(0, 0, pixelWidth, pixelHeight);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+    gl.enable(gl.DEPTH_TEST);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    gl.useProgram(tileProgram);
+    setView(tileProgram, view);
+    gl.bindVertexArray(tileBatch.vao);
+    gl.drawArraysInstanced(gl.TRIANGLES, 0, tileBatch.vertexCount, tileBatch.instanceCount);
+
+    gl.useProgram(propProgram);
+    setView(propProgram, view);
+    props.forEach(({ batch, unit }) => {
+      if (batch.instanceCount === 0) return;
+      gl.uniform1f(gl.getUniformLocation(propProgram, 'u_unit'), unit);
+      gl.bindVertexArray(batch.vao);
+      gl.drawArraysInstanced(gl.TRIANGLES, 0, batch.vertexCount, batch.instanceCount);
+    });
+    gl.bindVertexArray(null);
+  };
+
+  const handleLost = () => onLost();
+  canvas.addEventListener('webglcontextlost', handleLost);
+
+  return {
+    kind: 'WEBGL',
+    setTiles: next => {
+      tiles = next;
+      builtPalette = null;
+    },
+    draw,
+    dispose: () => {
+      canvas.removeEventListener('webglcontextlost', handleLost);
+      [tileBatch, ...props.map(prop => prop.batch)].forEach(batch => {
+        gl.deleteVertexArray(batch.vao);
+        gl.deleteBuffer(batch.mesh);
+        gl.deleteBuffer(batch.instances);
+      });
+      gl.deleteProgram(tileProgram);
+      gl.deleteProgram(propProgram);
+      // Leave a blank layer behind for whatever draws the terrain next
+      if (!gl.isContextLost()) {
+        gl.clearColor(0, 0, 0, 0);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+      }
+    },
+  };
+};
@@ -14,30 +14,142 @@ export enum TileType {
   GRAVEL = 'GRAVEL',
   TREE = 'TREE',
   OBSTACLE = 'OBSTACLE',
+  ICE = 'ICE',
+  SNOW = 'SNOW',
+  LAVA = 'LAVA',
+  MUD = 'MUD',
   EMPTY = 'EMPTY',
 }
 
 export interface Tile {
   x: number;
   z: number;
-  height: number;
+  height: number; // Height at the tile centre
   type: TileType;
+  // Optional per-vertex heights, ordered (-x,-z), (+x,-z), (+x,+z), (-x,+z).
+  // When present the tile is a bilinear patch instead of a flat box.
+  corners?: [number, number, number, number];
 }
 
 export interface BallState {
   position: Vector3;
   velocity: Vector3;
+  spin: Vector3; // Angular velocity (rad/s) about world axes
   isMoving: boolean;
   inHole: boolean;
   lastStablePosition: Vector3;
 }
 
+// Wind for a level. Steady base wind plus gusts that vary with time,
+// fading out towards the ground so rolling balls are barely affected.
+export interface WindField {
+  base: Vector3; // Steady horizontal wind at full height (m/s)
+  gustStrength: number; // Gust amplitude as a fraction of base (0 = steady)
+  gustPeriod: number; // s
+  gustPhase: number; // Radians
+  heightScale: number; // Height above ground where wind reaches full strength
+}
+
+// --- LEVEL ENTITIES ---
+// Moving pieces on top of the tiles. Each one's pose is a pure function of the level
+// clock (see getEntityPose), so physics, prediction and drawing all agree on where it is.
+
+export interface Windmill {
+  type: 'WINDMILL';
+  position: Vector3; // Hub
+  facing: number; // Radians; the blades turn in the vertical plane along this heading
+  blades: number;
+  armLength: number;
+  period: number; // s per turn
+  phase: number; // Radians
+}
+
+export interface SlidingBlock {
+  type: 'SLIDING_BLOCK';
+  position: Vector3; // Centre of the bottom face at one end of the track
+  size: Vector3; // Full extents
+  travel: Vector3; // From one end of the track to the other
+  period: number; // s for a round trip
+  phase: number; // Radians
+}
+
+export interface RotatingBumper {
+  type: 'BUMPER';
+  position: Vector3; // Pivot, on the ground
+  radius: number; // Of the bumper post
+  armLength: number; // The post circles the pivot at this distance
+  period: number; // s per turn
+  phase: number; // Radians
+}
+
+export interface Conveyor {
+  type: 'CONVEYOR';
+  position: Vector3; // Middle of the belt
+  cells: { x: number; z: number }[]; // Tiles the belt covers
+  velocity: Vector3; // Belt surface, horizontal
+}
+
+// A pair of pads; a ball rolling onto either one comes out of the other
+export interface Teleporter {
+  type: 'TELEPORTER';
+  position: Vector3;
+  exit: Vector3;
+  radius: number;
+}
+
+export type LevelEntity = Windmill | SlidingBlock | RotatingBumper | Conveyor | Teleporter;
+export type LevelEntityType = LevelEntity['type'];
+
+export type MapType = 'ARCHIPELAGO' | 'CONTINENT' | 'CANYON' | 'LINKS' | 'MOUNTAIN' | 'ISLAND_GREEN';
+export type Biome = 'MEADOW' | 'DESERT' | 'ALPINE' | 'GLACIER' | 'VOLCANIC' | 'MARSH';
+
 export interface Level {
   tiles: Tile[];
   startPosition: Vector3;
   holePosition: Vector3;
   par: number;
-  // Wind removed
+  // Reproducibility: the same course code always rebuilds the same grid. levelIndex and
+  // seed alone don't, since the code also carries the map type and size.
+  levelIndex: number;
+  seed: number;
+  mapType: MapType;
+  biome: Biome;
+  code: string; // Shareable course code, see encodeCourseCode
+  wind: WindField;
+  entities: LevelEntity[];
+}
+
+export interface Player {
+  id: number;
+  name: string;
+  color: string; // Ball colour on the canvas
+}
+
+// Where one player stands on the current hole
+export interface PlayerHoleState {
+  ball: BallState;
+  strokes: number;
+  penalties: number;
+  holed: boolean;
+}
+
+// An ordered set of seeded holes
+export interface Course {
+  seed: number;
+  holes: Level[];
+}
+
+export interface HoleScore {
+  strokes: number; // Swings
+  penalties: number;
+}
+
+// Progress through a course: per player, one score slot per hole, null until the hole is finished
+export interface Round {
+  course: Course;
+  players: Player[];
+  currentHole: number; // Index into course.holes
+  scores: (HoleScore | null)[][]; // [player][hole]
 }
 
 export interface PhysicsConfig {
@@ -48,19 +160,36 @@ export interface PhysicsConfig {
   frictionGreen: number;
   frictionGravel: number;
   frictionRough: number;
+  frictionIce: number;
+  frictionSnow: number;
+  frictionMud: number;
   restitution: number; // Bounciness
+  magnusCoefficient: number; // Lift per unit (spin × velocity)
+  spinDecay: number; // Fraction of spin lost per second in flight
   maxVelocity: number;
   minVelocityToStop: number;
 }
 
+// STROKE_PLAY counts every stroke against par; LIVES is the original arcade run
+export type GameMode = 'STROKE_PLAY' | 'LIVES';
+
+// DRAG shoots on release; METER locks the drag's aim and swings with the three-click meter
+export type SwingInput = 'DRAG' | 'METER';
+
+// Tile colours; COLOR_BLIND keeps hazards apart for red-green colour blindness
+export type Palette = 'STANDARD' | 'COLOR_BLIND';
+
 export enum GamePhase {
   AIMING = 'AIMING',
   EXECUTING = 'EXECUTING',
   IDLE = 'IDLE',
   HOLED = 'HOLED',
   LEVEL_COMPLETE = 'LEVEL_COMPLETE',
+  ROUND_COMPLETE = 'ROUND_COMPLETE',
   OUT_OF_BOUNDS = 'OUT_OF_BOUNDS',
   GAME_OVER = 'GAME_OVER',
+  REPLAY = 'REPLAY', // Reviewing recorded shots, aiming is locked
+  EDITING = 'EDITING', // Level editor, the canvas paints tiles instead of aiming
 }
 
 export interface CameraState {
@@ -76,6 +205,9 @@ export enum ClubType {
   PUTTER = 'PUTTER',
 }
 
+// What the ball sits on before a swing. The tee isn't a tile type: it's the hole's start position.
+export type Lie = TileType | 'TEE';
+
 export interface TrajectoryData {
   points: Vector3[];
   maxHeight: number;
@@ -84,12 +216,24 @@ export interface TrajectoryData {
   duration: number; // Seconds
 }
 
+// Where the club face meets the ball, -1..1 from the centre.
+// y < 0 strikes below centre (more backspin), x > 0 fades the ball right, x < 0 draws it left.
+export interface ContactPoint {
+  x: number;
+  y: number;
+}
+
 export interface AimData {
   force: number; // Newtons
   maxForce: number; // Newtons (Club Max)
   velocity: Vector3;
+  spin: Vector3; // rad/s
+  backspin: number; // rad/s, negative is topspin
+  sidespin: number; // rad/s, positive curves right
   launchAngle: number; // Degrees
   powerRatio: number; // 0-1
+  lie: Lie;
+  strikeRatio: number; // powerRatio after the lie's cap and penalty; what the force uses
   mass: number; // kg
   contactTime: number; // s
   predictedTotalTime: number; // s